@@ -1,13 +1,69 @@
 import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
+import { isIpAllowed } from "./ipAllowlist.ts";
+import { logger, Logger } from "./logger.ts";
+import { runInBackground } from "./background.ts";
 
 export interface ApiKeyValidationResult {
   isValid: boolean;
   professionalId?: string;
   apiKeyId?: string;
+  scopes?: string[];
+  deprecation?: {
+    rotatedAt: string;
+    expiresAt: string;
+    replacedByKeyId: string | null;
+  };
   error?: string;
   errorCode?: string;
 }
 
+// API key scopes
+export const SCOPE_LEADS_WRITE = 'leads:write';
+export const SCOPE_LEADS_READ = 'leads:read';
+export const SCOPE_WEBHOOKS_MANAGE = 'webhooks:manage';
+export const SCOPE_USAGE_READ = 'usage:read';
+// Allows reading unmasked client contact data
+export const SCOPE_LEADS_READ_CONTACT = 'leads:read_contact';
+
+export const API_KEY_SCOPES = [
+  SCOPE_LEADS_WRITE,
+  SCOPE_LEADS_READ,
+  SCOPE_WEBHOOKS_MANAGE,
+  SCOPE_USAGE_READ,
+  SCOPE_LEADS_READ_CONTACT
+];
+
+// Scopes granted when none are requested at creation
+export const DEFAULT_API_KEY_SCOPES = [
+  SCOPE_LEADS_WRITE,
+  SCOPE_LEADS_READ,
+  SCOPE_WEBHOOKS_MANAGE,
+  SCOPE_USAGE_READ
+];
+
+// Keys expiring within this many days are "expiring soon"
+export const EXPIRING_SOON_DAYS = 7;
+
+// Columns needed to validate a key
+const API_KEY_RECORD_COLUMNS = 'id, professional_id, is_active, expires_at, revoked_at, scopes, rotated_at, replaced_by_key_id, allowed_cidrs';
+
+interface ApiKeyRecord {
+  id: string;
+  professional_id: string;
+  is_active: boolean;
+  expires_at: string | null;
+  revoked_at: string | null;
+  scopes: string[] | null;
+  rotated_at: string | null;
+  replaced_by_key_id: string | null;
+  allowed_cidrs: string[] | null;
+}
+
+// Default cap on key lifetime at creation (override with API_KEY_MAX_LIFETIME_DAYS)
+const DEFAULT_MAX_KEY_LIFETIME_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Extract API key from request headers
  */
@@ -26,12 +82,129 @@ async function hashApiKey(apiKey: string): Promise<string> {
   return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
 }
 
+/**
+ * Short, non-reversible fingerprint of an API key for display (not usable for lookups)
+ */
+async function fingerprintApiKey(apiKey: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const data = encoder.encode(`ofair-key-fingerprint:${apiKey}`);
+  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+  const hashArray = Array.from(new Uint8Array(hashBuffer)).slice(0, 6);
+  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Masked key for display, e.g. "ofair_pk_****dE9f"
+ */
+export function getKeyDisplay(prefix: string, suffix: string | null): string {
+  return `${prefix}_****${suffix || ''}`;
+}
+
+/**
+ * Look up a key's metadata from its full value (any state: active, revoked or expired)
+ */
+export async function findApiKeyByValue(
+  apiKey: string,
+  supabase: SupabaseClient
+): Promise<Record<string, unknown> | null> {
+  if (!apiKey.match(/^ofair_pk_[A-Za-z0-9]{32}$/)) {
+    return null;
+  }
+
+  const keyHash = await hashApiKey(apiKey);
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select('id, professional_id, key_prefix, key_suffix, key_fingerprint, name, scopes, allowed_cidrs, is_active, created_at, last_used_at, expires_at, revoked_at, rotated_at, replaced_by_key_id')
+    .eq('key_hash', keyHash)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Check a looked-up key's state (active, not revoked or expired) and IP allowlist
+ */
+function checkApiKeyRecord(
+  data: ApiKeyRecord,
+  supabase: SupabaseClient,
+  clientIp: string | null
+): ApiKeyValidationResult {
+  // Check if key is active
+  if (!data.is_active) {
+    return {
+      isValid: false,
+      error: 'API key is inactive',
+      errorCode: 'inactive_api_key'
+    };
+  }
+
+  // Check if key was revoked
+  if (data.revoked_at) {
+    return {
+      isValid: false,
+      error: 'API key has been revoked',
+      errorCode: 'revoked_api_key'
+    };
+  }
+
+  // Check if key is expired
+  if (data.expires_at && new Date(data.expires_at) < new Date()) {
+    // Deactivate the expired key, without holding up the response
+    runInBackground(
+      supabase.from('api_keys').update({ is_active: false }).eq('id', data.id).throwOnError(),
+      'deactivate expired API key'
+    );
+
+    return {
+      isValid: false,
+      error: 'API key has expired',
+      errorCode: 'expired_api_key'
+    };
+  }
+
+  // Check the client IP against the key's allowlist
+  if (!isIpAllowed(clientIp, data.allowed_cidrs)) {
+    return {
+      isValid: false,
+      error: 'Requests from this IP address are not allowed for this API key',
+      errorCode: 'ip_not_allowed'
+    };
+  }
+
+  // Update last_used_at timestamp, without holding up the response
+  runInBackground(
+    supabase.from('api_keys').update({ last_used_at: new Date().toISOString() }).eq('id', data.id).throwOnError(),
+    'update API key last_used_at'
+  );
+
+  return {
+    isValid: true,
+    professionalId: data.professional_id,
+    apiKeyId: data.id,
+    scopes: data.scopes || [],
+    // A rotated key always expires, at the end of its grace period
+    deprecation: data.rotated_at
+      ? {
+        rotatedAt: data.rotated_at,
+        expiresAt: data.expires_at!,
+        replacedByKeyId: data.replaced_by_key_id
+      }
+      : undefined
+  };
+}
+
 /**
  * Validate an API key and return the associated professional ID
  */
 export async function validateApiKey(
   apiKey: string,
-  supabase: SupabaseClient
+  supabase: SupabaseClient,
+  clientIp: string | null = null,
+  log: Logger = logger
 ): Promise<ApiKeyValidationResult> {
   if (!apiKey) {
     return {
@@ -57,12 +230,12 @@ export async function validateApiKey(
     // Look up the key in the database
     const { data, error } = await supabase
       .from('api_keys')
-      .select('id, professional_id, is_active, expires_at, revoked_at')
+      .select(API_KEY_RECORD_COLUMNS)
       .eq('key_hash', keyHash)
       .single();
 
     if (error || !data) {
-      console.error('API key lookup error:', error);
+      log.warn('API key lookup failed', { error });
       return {
         isValid: false,
         error: 'Invalid API key',
@@ -70,53 +243,48 @@ export async function validateApiKey(
       };
     }
 
-    // Check if key is active
-    if (!data.is_active) {
-      return {
-        isValid: false,
-        error: 'API key is inactive',
-        errorCode: 'inactive_api_key'
-      };
-    }
+    return checkApiKeyRecord(data, supabase, clientIp);
 
-    // Check if key was revoked
-    if (data.revoked_at) {
-      return {
-        isValid: false,
-        error: 'API key has been revoked',
-        errorCode: 'revoked_api_key'
-      };
-    }
+  } catch (err) {
+    log.error('API key validation error', { error: err });
+    return {
+      isValid: false,
+      error: 'Internal error validating API key',
+      errorCode: 'internal_error'
+    };
+  }
+}
 
-    // Check if key is expired
-    if (data.expires_at && new Date(data.expires_at) < new Date()) {
-      // Deactivate the expired key
-      await supabase
-        .from('api_keys')
-        .update({ is_active: false })
-        .eq('id', data.id);
+/**
+ * Validate a stored key by id, e.g. before acting on its behalf without the key itself (request replays).
+ * Applies the same checks as validateApiKey.
+ */
+export async function validateApiKeyById(
+  apiKeyId: string,
+  supabase: SupabaseClient,
+  clientIp: string | null = null,
+  log: Logger = logger
+): Promise<ApiKeyValidationResult> {
+  try {
+    const { data, error } = await supabase
+      .from('api_keys')
+      .select(API_KEY_RECORD_COLUMNS)
+      .eq('id', apiKeyId)
+      .single();
 
+    if (error || !data) {
+      log.warn('API key lookup by id failed', { api_key_id: apiKeyId, error });
       return {
         isValid: false,
-        error: 'API key has expired',
-        errorCode: 'expired_api_key'
+        error: 'Invalid API key',
+        errorCode: 'invalid_api_key'
       };
     }
 
-    // Update last_used_at timestamp
-    await supabase
-      .from('api_keys')
-      .update({ last_used_at: new Date().toISOString() })
-      .eq('id', data.id);
-
-    return {
-      isValid: true,
-      professionalId: data.professional_id,
-      apiKeyId: data.id
-    };
+    return checkApiKeyRecord(data, supabase, clientIp);
 
   } catch (err) {
-    console.error('API key validation error:', err);
+    log.error('API key validation error', { error: err });
     return {
       isValid: false,
       error: 'Internal error validating API key',
@@ -125,14 +293,106 @@ export async function validateApiKey(
   }
 }
 
+/**
+ * Deprecation headers for responses authenticated with a rotated key (RFC 9745 / RFC 8594)
+ */
+export function getDeprecationHeaders(validation: ApiKeyValidationResult): Record<string, string> {
+  if (!validation.deprecation) return {};
+
+  const headers: Record<string, string> = {
+    'Deprecation': `@${Math.floor(new Date(validation.deprecation.rotatedAt).getTime() / 1000)}`,
+    'Sunset': new Date(validation.deprecation.expiresAt).toUTCString()
+  };
+
+  if (validation.deprecation.replacedByKeyId) {
+    headers['X-API-Key-Replaced-By'] = validation.deprecation.replacedByKeyId;
+  }
+
+  return headers;
+}
+
+/**
+ * Check that a validated API key has the required scope
+ */
+export function hasScope(validation: ApiKeyValidationResult, scope: string): boolean {
+  return !!validation.scopes && validation.scopes.includes(scope);
+}
+
+/**
+ * Validate a requested scope list, returning the first unknown scope if any
+ */
+export function findInvalidScope(scopes: unknown[]): string | null {
+  const invalid = scopes.find(scope => typeof scope !== 'string' || !API_KEY_SCOPES.includes(scope));
+  return invalid === undefined ? null : String(invalid);
+}
+
+/**
+ * Resolve a requested key expiry from a duration (expires_in_days) or an absolute date (expires_at)
+ */
+export function resolveKeyExpiry(
+  expiresInDays: unknown,
+  expiresAt: unknown
+): { expiresAt: string | null } | { error: string } {
+  const maxLifetimeDays = Number(Deno.env.get('API_KEY_MAX_LIFETIME_DAYS')) || DEFAULT_MAX_KEY_LIFETIME_DAYS;
+  const now = Date.now();
+
+  if (expiresInDays !== undefined && expiresAt !== undefined) {
+    return { error: 'Provide either expires_in_days or expires_at, not both' };
+  }
+
+  let expiry: number;
+  if (expiresInDays !== undefined) {
+    if (typeof expiresInDays !== 'number' || !Number.isInteger(expiresInDays) || expiresInDays < 1) {
+      return { error: 'expires_in_days must be a positive integer' };
+    }
+    expiry = now + expiresInDays * DAY_MS;
+  } else if (expiresAt !== undefined) {
+    if (typeof expiresAt !== 'string' || isNaN(Date.parse(expiresAt))) {
+      return { error: 'expires_at must be an ISO 8601 date' };
+    }
+    expiry = Date.parse(expiresAt);
+    if (expiry <= now) {
+      return { error: 'expires_at must be in the future' };
+    }
+  } else {
+    return { expiresAt: null };
+  }
+
+  if (expiry > now + maxLifetimeDays * DAY_MS) {
+    return { error: `API key lifetime cannot exceed ${maxLifetimeDays} days` };
+  }
+
+  return { expiresAt: new Date(expiry).toISOString() };
+}
+
+/**
+ * Whole days until a key expires (negative once expired), or null if it never expires
+ */
+export function getExpiresInDays(expiresAt: string | null): number | null {
+  if (!expiresAt) return null;
+  return Math.floor((new Date(expiresAt).getTime() - Date.now()) / DAY_MS);
+}
+
 /**
  * Generate a new API key for a professional
  */
 export async function generateApiKey(
   professionalId: string,
   name: string | null,
-  supabase: SupabaseClient
-): Promise<{ fullKey: string; keyId: string; prefix: string } | { error: string }> {
+  supabase: SupabaseClient,
+  options: {
+    scopes?: string[];
+    expiresAt?: string | null;
+    allowedCidrs?: string[];
+  } = {}
+): Promise<{
+  fullKey: string;
+  keyId: string;
+  prefix: string;
+  suffix: string;
+  fingerprint: string;
+  scopes: string[];
+} | { error: string; errorCode: string }> {
   const charset = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
   const randomPart = Array.from(
     crypto.getRandomValues(new Uint8Array(32)),
@@ -141,7 +401,10 @@ export async function generateApiKey(
 
   const fullKey = `ofair_pk_${randomPart}`;
   const prefix = 'ofair_pk';
+  const suffix = fullKey.slice(-4);
+  const scopes = options.scopes || DEFAULT_API_KEY_SCOPES;
   const keyHash = await hashApiKey(fullKey);
+  const fingerprint = await fingerprintApiKey(fullKey);
 
   // Check if name already exists for this professional
   if (name) {
@@ -151,10 +414,11 @@ export async function generateApiKey(
       .eq('professional_id', professionalId)
       .eq('name', name)
       .eq('is_active', true)
+      .is('rotated_at', null)
       .single();
 
     if (existingKey) {
-      return { error: 'An API key with this name already exists' };
+      return { error: 'An API key with this name already exists', errorCode: 'duplicate_key_name' };
     }
   }
 
@@ -165,24 +429,41 @@ export async function generateApiKey(
       professional_id: professionalId,
       key_prefix: prefix,
       key_hash: keyHash,
+      key_suffix: suffix,
+      key_fingerprint: fingerprint,
       name: name || `API Key ${new Date().toLocaleDateString('he-IL')}`,
+      scopes,
+      expires_at: options.expiresAt || null,
+      allowed_cidrs: options.allowedCidrs || [],
       is_active: true
     })
     .select('id')
     .single();
 
   if (error) {
-    console.error('Error creating API key:', error);
-    return { error: 'Failed to create API key' };
+    logger.error('Error creating API key', { professional_id: professionalId, error });
+    return { error: 'Failed to create API key', errorCode: 'database_error' };
   }
 
   return {
     fullKey,
     keyId: data.id,
-    prefix
+    prefix,
+    suffix,
+    fingerprint,
+    scopes
   };
 }
 
+/**
+ * Check that a request was made with the service role key (scheduled jobs)
+ */
+export function isServiceRoleRequest(req: Request): boolean {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+  const authHeader = req.headers.get('Authorization');
+  return !!serviceRoleKey && authHeader === `Bearer ${serviceRoleKey}`;
+}
+
 /**
  * Get Supabase client using service role key
  */
@@ -0,0 +1,41 @@
+import { assertEquals } from "https://deno.land/std@0.177.0/testing/asserts.ts";
+import { Logger, LogFields } from "./logger.ts";
+import { runInBackground, settleBackgroundTasks } from "./background.ts";
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function createRecordingLogger() {
+  const lines: { level: string; message: string; fields?: LogFields }[] = [];
+  const record = (level: string) => (message: string, fields?: LogFields) => {
+    lines.push({ level, message, fields });
+  };
+  const log: Logger = { debug: record('debug'), info: record('info'), warn: record('warn'), error: record('error') };
+  return { log, lines };
+}
+
+Deno.test('runInBackground logs failed tasks instead of rejecting', async () => {
+  const { log, lines } = createRecordingLogger();
+
+  runInBackground(Promise.reject(new Error('insert failed')), 'request log', log);
+  runInBackground(delay(10), 'geocode cache write', log);
+  await settleBackgroundTasks();
+
+  assertEquals(lines.length, 1);
+  assertEquals(lines[0].level, 'error');
+  assertEquals(lines[0].message, 'Background task failed: request log');
+  assertEquals((lines[0].fields?.error as Error).message, 'insert failed');
+});
+
+Deno.test('settleBackgroundTasks waits for tasks started by other tasks', async () => {
+  const { log, lines } = createRecordingLogger();
+  const finished: string[] = [];
+
+  runInBackground(delay(5).then(() => {
+    finished.push('first');
+    runInBackground(delay(5).then(() => finished.push('second')), 'second task', log);
+  }), 'first task', log);
+  await settleBackgroundTasks();
+
+  assertEquals(finished, ['first', 'second']);
+  assertEquals(lines.length, 0);
+});
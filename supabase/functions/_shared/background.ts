@@ -0,0 +1,39 @@
+import { logger, Logger } from "./logger.ts";
+
+// Provided by the Supabase Edge Runtime; absent when running under plain Deno
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+// Background tasks that have not settled yet
+const pendingTasks = new Set<Promise<void>>();
+
+/**
+ * Run work after the response is sent. The Edge Runtime keeps the worker alive
+ * until the task settles, so it is not cut off when the handler returns. Under
+ * plain Deno the task is tracked until it settles (see settleBackgroundTasks).
+ * Failures are logged, never thrown.
+ */
+export function runInBackground(task: PromiseLike<unknown>, description: string, log: Logger = logger): void {
+  const guarded: Promise<void> = Promise.resolve(task)
+    .then(() => undefined)
+    .catch((error) => {
+      log.error(`Background task failed: ${description}`, { error });
+    })
+    .finally(() => {
+      pendingTasks.delete(guarded);
+    });
+
+  pendingTasks.add(guarded);
+
+  if (typeof EdgeRuntime !== 'undefined' && EdgeRuntime?.waitUntil) {
+    EdgeRuntime.waitUntil(guarded);
+  }
+}
+
+/**
+ * Wait until all background tasks have settled, including tasks they start
+ */
+export async function settleBackgroundTasks(): Promise<void> {
+  while (pendingTasks.size > 0) {
+    await Promise.all(pendingTasks);
+  }
+}
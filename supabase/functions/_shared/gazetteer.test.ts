@@ -0,0 +1,94 @@
+import { assertEquals } from "https://deno.land/std@0.177.0/testing/asserts.ts";
+import { findLocality, normalizeLocalityName } from "./gazetteer.ts";
+
+Deno.test('normalizeLocalityName ignores case, quotes, hyphens, niqqud and final letters', () => {
+  const cases: [string, string][] = [
+    ['Tel Aviv-Yafo', 'tel aviv yafo'],
+    ['  TEL   AVIV ', 'tel aviv'],
+    ['ת"א', 'תא'],
+    ['ת״א', 'תא'],
+    ["Modi'in", 'modiin'],
+    ['מודיעין־מכבים־רעות', 'מודיעינ מכבימ רעות'],
+    ['ירושָׁלַיִם', 'ירושלימ'],
+    ['Béer Sheva', 'beer sheva']
+  ];
+
+  for (const [name, expected] of cases) {
+    assertEquals(normalizeLocalityName(name), expected, name);
+  }
+});
+
+Deno.test('findLocality matches names, aliases and addresses exactly', () => {
+  const cases: [string, string][] = [
+    ['חיפה', 'חיפה'],
+    ['Haifa', 'חיפה'],
+    ['בחיפה', 'חיפה'],
+    ['לתל אביב', 'תל אביב'],
+    ['TLV', 'תל אביב'],
+    ['ת"א', 'תל אביב'],
+    ['Jaffa', 'תל אביב'],
+    ['הרצל 5, חיפה', 'חיפה'],
+    ['Rothschild 1, Tel Aviv, Israel', 'תל אביב'],
+    ['Kiryat Ata', 'קריית אתא'],
+    ['קריית אתא', 'קריית אתא'],
+    ['Lod', 'לוד'],
+    ['Elat', 'אילת'],
+    ['Elad', 'אלעד'],
+    ['Modiin Illit', 'מודיעין עילית'],
+    ['Modiin', 'מודיעין']
+  ];
+
+  for (const [location, expected] of cases) {
+    assertEquals(findLocality(location)?.name, expected, location);
+  }
+});
+
+Deno.test('findLocality tolerates one typo', () => {
+  const cases: [string, string][] = [
+    ['Haifaa', 'חיפה'],
+    ['Natania', 'נתניה'],
+    ['Kiryat Atta', 'קריית אתא'],
+    ['Kirat Ata', 'קריית אתא'],
+    ['Petah Tikvah', 'פתח תקווה'],
+    ['Ashkelonn', 'אשקלון'],
+    ['Herzliyah', 'הרצליה'],
+    ['נתנייה', 'נתניה'],
+    ['קרית אתא', 'קריית אתא'],
+    ['הרצל 5, Beersheeba', 'באר שבע']
+  ];
+
+  for (const [location, expected] of cases) {
+    assertEquals(findLocality(location)?.name, expected, location);
+  }
+});
+
+Deno.test('findLocality does not match near misses', () => {
+  const cases: string[] = [
+    // Localities missing from the gazetteer, two edits away from one in it
+    'Kiryat Arba',
+    'קריית ארבע',
+    'Kiryat Ekron',
+    'Kiryat Yearim',
+    'Tel Mond',
+    'Or Akiva Street',
+    // Two typos
+    'Hiafa',
+    'Natanyahh',
+    'Kiryat Atttta',
+    'Kirat Atta',
+    // Short names must match exactly
+    'Lud',
+    'Ard',
+    'עכא',
+    // One typo away from two localities (Elat and Elad)
+    'Elax',
+    // Not a place
+    'Israel',
+    '',
+    '12345'
+  ];
+
+  for (const location of cases) {
+    assertEquals(findLocality(location), null, location);
+  }
+});
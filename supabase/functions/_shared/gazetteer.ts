@@ -0,0 +1,237 @@
+/**
+ * Offline gazetteer of Israeli localities.
+ *
+ * Resolves a free-text location (Hebrew or English, common misspellings, a full address)
+ * to a canonical locality with coordinates, without a network call.
+ */
+
+export interface Locality {
+  // Canonical Hebrew name, stored as the lead location
+  name: string;
+  nameEn: string;
+  // Other spellings and names, Hebrew or English
+  aliases: string[];
+  latitude: number;
+  longitude: number;
+}
+
+export const ISRAELI_LOCALITIES: Locality[] = [
+  { name: 'ירושלים', nameEn: 'Jerusalem', aliases: ['ירושליים', 'י-ם', 'Yerushalayim', 'Jlm'], latitude: 31.7683, longitude: 35.2137 },
+  { name: 'תל אביב', nameEn: 'Tel Aviv', aliases: ['תל אביב-יפו', 'תל אביב יפו', 'ת"א', 'יפו', 'Tel Aviv-Yafo', 'Jaffa', 'Yafo', 'TLV'], latitude: 32.0853, longitude: 34.7818 },
+  { name: 'חיפה', nameEn: 'Haifa', aliases: ['Hefa'], latitude: 32.7940, longitude: 34.9896 },
+  { name: 'ראשון לציון', nameEn: 'Rishon LeZion', aliases: ['ראשל"צ', 'ראשון', 'Rishon'], latitude: 31.9730, longitude: 34.7925 },
+  { name: 'פתח תקווה', nameEn: 'Petah Tikva', aliases: ['פתח תקוה', 'פ"ת', 'Petach Tikva', 'Petah Tiqwa'], latitude: 32.0840, longitude: 34.8878 },
+  { name: 'אשדוד', nameEn: 'Ashdod', aliases: [], latitude: 31.8044, longitude: 34.6553 },
+  { name: 'נתניה', nameEn: 'Netanya', aliases: ['Natanya'], latitude: 32.3215, longitude: 34.8532 },
+  { name: 'באר שבע', nameEn: 'Beersheba', aliases: ['ב"ש', 'Beer Sheva', 'Beersheva'], latitude: 31.2518, longitude: 34.7913 },
+  { name: 'בני ברק', nameEn: 'Bnei Brak', aliases: ['ב"ב', 'Bene Beraq'], latitude: 32.0807, longitude: 34.8338 },
+  { name: 'חולון', nameEn: 'Holon', aliases: [], latitude: 32.0158, longitude: 34.7874 },
+  { name: 'רמת גן', nameEn: 'Ramat Gan', aliases: ['ר"ג'], latitude: 32.0684, longitude: 34.8248 },
+  { name: 'אשקלון', nameEn: 'Ashkelon', aliases: ['Ashqelon'], latitude: 31.6688, longitude: 34.5743 },
+  { name: 'רחובות', nameEn: 'Rehovot', aliases: ['Rechovot'], latitude: 31.8928, longitude: 34.8113 },
+  { name: 'בת ים', nameEn: 'Bat Yam', aliases: [], latitude: 32.0171, longitude: 34.7454 },
+  { name: 'בית שמש', nameEn: 'Beit Shemesh', aliases: ['Bet Shemesh'], latitude: 31.7470, longitude: 34.9881 },
+  { name: 'כפר סבא', nameEn: 'Kfar Saba', aliases: ['כ"ס', 'Kefar Sava'], latitude: 32.1750, longitude: 34.9069 },
+  { name: 'הרצליה', nameEn: 'Herzliya', aliases: ['Herzlia'], latitude: 32.1663, longitude: 34.8433 },
+  { name: 'חדרה', nameEn: 'Hadera', aliases: [], latitude: 32.4340, longitude: 34.9196 },
+  { name: 'מודיעין', nameEn: 'Modiin', aliases: ['מודיעין-מכבים-רעות', 'מכבים', 'רעות', 'Modiin-Maccabim-Reut'], latitude: 31.8980, longitude: 35.0104 },
+  { name: 'מודיעין עילית', nameEn: 'Modiin Illit', aliases: ['קריית ספר', 'Kiryat Sefer'], latitude: 31.9325, longitude: 35.0436 },
+  { name: 'נצרת', nameEn: 'Nazareth', aliases: ['Natzrat'], latitude: 32.6996, longitude: 35.3035 },
+  { name: 'נוף הגליל', nameEn: 'Nof HaGalil', aliases: ['נצרת עילית', 'Nazareth Illit', 'Upper Nazareth'], latitude: 32.7089, longitude: 35.3244 },
+  { name: 'לוד', nameEn: 'Lod', aliases: ['Lydda'], latitude: 31.9510, longitude: 34.8881 },
+  { name: 'רמלה', nameEn: 'Ramla', aliases: ['Ramle'], latitude: 31.9275, longitude: 34.8625 },
+  { name: 'רעננה', nameEn: 'Raanana', aliases: [], latitude: 32.1848, longitude: 34.8713 },
+  { name: 'ראש העין', nameEn: 'Rosh HaAyin', aliases: [], latitude: 32.0956, longitude: 34.9567 },
+  { name: 'הוד השרון', nameEn: 'Hod HaSharon', aliases: [], latitude: 32.1500, longitude: 34.8883 },
+  { name: 'רמת השרון', nameEn: 'Ramat HaSharon', aliases: [], latitude: 32.1461, longitude: 34.8394 },
+  { name: 'גבעתיים', nameEn: 'Givatayim', aliases: [], latitude: 32.0722, longitude: 34.8125 },
+  { name: 'גבעת שמואל', nameEn: 'Givat Shmuel', aliases: [], latitude: 32.0778, longitude: 34.8486 },
+  { name: 'קריית אונו', nameEn: 'Kiryat Ono', aliases: [], latitude: 32.0636, longitude: 34.8553 },
+  { name: 'אור יהודה', nameEn: 'Or Yehuda', aliases: [], latitude: 32.0314, longitude: 34.8522 },
+  { name: 'יהוד', nameEn: 'Yehud', aliases: ['יהוד-מונוסון', 'Yehud-Monosson'], latitude: 32.0333, longitude: 34.8833 },
+  { name: 'גני תקווה', nameEn: 'Ganei Tikva', aliases: ['גני תקוה'], latitude: 32.0611, longitude: 34.8736 },
+  { name: 'אלעד', nameEn: 'Elad', aliases: [], latitude: 32.0522, longitude: 34.9511 },
+  { name: 'שוהם', nameEn: 'Shoham', aliases: [], latitude: 31.9986, longitude: 34.9469 },
+  { name: 'באר יעקב', nameEn: 'Beer Yaakov', aliases: [], latitude: 31.9425, longitude: 34.8372 },
+  { name: 'נס ציונה', nameEn: 'Ness Ziona', aliases: ['Nes Tziona'], latitude: 31.9293, longitude: 34.7987 },
+  { name: 'יבנה', nameEn: 'Yavne', aliases: ['Yavneh'], latitude: 31.8780, longitude: 34.7390 },
+  { name: 'גדרה', nameEn: 'Gedera', aliases: [], latitude: 31.8144, longitude: 34.7772 },
+  { name: 'גן יבנה', nameEn: 'Gan Yavne', aliases: [], latitude: 31.7867, longitude: 34.7061 },
+  { name: 'מזכרת בתיה', nameEn: 'Mazkeret Batya', aliases: [], latitude: 31.8533, longitude: 34.8461 },
+  { name: 'קריית גת', nameEn: 'Kiryat Gat', aliases: [], latitude: 31.6100, longitude: 34.7642 },
+  { name: 'קריית מלאכי', nameEn: 'Kiryat Malakhi', aliases: ['Kiryat Malachi'], latitude: 31.7300, longitude: 34.7467 },
+  { name: 'כפר יונה', nameEn: 'Kfar Yona', aliases: [], latitude: 32.3167, longitude: 34.9333 },
+  { name: 'אבן יהודה', nameEn: 'Even Yehuda', aliases: [], latitude: 32.2700, longitude: 34.8875 },
+  { name: 'קדימה-צורן', nameEn: 'Kadima-Zoran', aliases: ['קדימה', 'צורן'], latitude: 32.2800, longitude: 34.9100 },
+  { name: 'כפר קאסם', nameEn: 'Kafr Qasim', aliases: ['Kfar Kasem'], latitude: 32.1150, longitude: 34.9767 },
+  { name: 'טייבה', nameEn: 'Tayibe', aliases: ['Taibe'], latitude: 32.2667, longitude: 35.0083 },
+  { name: 'טירה', nameEn: 'Tira', aliases: [], latitude: 32.2333, longitude: 34.9500 },
+  { name: 'קלנסווה', nameEn: 'Qalansawe', aliases: [], latitude: 32.2850, longitude: 34.9811 },
+  { name: 'אור עקיבא', nameEn: 'Or Akiva', aliases: [], latitude: 32.5072, longitude: 34.9186 },
+  { name: 'קיסריה', nameEn: 'Caesarea', aliases: [], latitude: 32.5190, longitude: 34.9045 },
+  { name: 'זכרון יעקב', nameEn: 'Zichron Yaakov', aliases: ['זיכרון יעקב', 'Zikhron Yaakov'], latitude: 32.5707, longitude: 34.9526 },
+  { name: 'פרדס חנה-כרכור', nameEn: 'Pardes Hanna-Karkur', aliases: ['פרדס חנה', 'כרכור', 'Pardes Hanna'], latitude: 32.4730, longitude: 34.9700 },
+  { name: 'חריש', nameEn: 'Harish', aliases: [], latitude: 32.4611, longitude: 35.0444 },
+  { name: 'באקה אל-גרביה', nameEn: 'Baqa al-Gharbiyye', aliases: [], latitude: 32.4181, longitude: 35.0414 },
+  { name: 'אום אל-פחם', nameEn: 'Umm al-Fahm', aliases: [], latitude: 32.5194, longitude: 35.1536 },
+  { name: 'עפולה', nameEn: 'Afula', aliases: [], latitude: 32.6078, longitude: 35.2897 },
+  { name: 'יקנעם עילית', nameEn: 'Yokneam Illit', aliases: ['יקנעם', 'Yokneam'], latitude: 32.6590, longitude: 35.1100 },
+  { name: 'מגדל העמק', nameEn: 'Migdal HaEmek', aliases: [], latitude: 32.6719, longitude: 35.2392 },
+  { name: 'קריית טבעון', nameEn: 'Kiryat Tivon', aliases: ['טבעון'], latitude: 32.7167, longitude: 35.1333 },
+  { name: 'טירת כרמל', nameEn: 'Tirat Carmel', aliases: ['טירת הכרמל'], latitude: 32.7600, longitude: 34.9719 },
+  { name: 'נשר', nameEn: 'Nesher', aliases: [], latitude: 32.7667, longitude: 35.0444 },
+  { name: 'דאלית אל-כרמל', nameEn: 'Daliyat al-Karmel', aliases: [], latitude: 32.6936, longitude: 35.0461 },
+  { name: 'קריית אתא', nameEn: 'Kiryat Ata', aliases: [], latitude: 32.8117, longitude: 35.1128 },
+  { name: 'קריית ביאליק', nameEn: 'Kiryat Bialik', aliases: [], latitude: 32.8275, longitude: 35.0858 },
+  { name: 'קריית מוצקין', nameEn: 'Kiryat Motzkin', aliases: [], latitude: 32.8370, longitude: 35.0770 },
+  { name: 'קריית ים', nameEn: 'Kiryat Yam', aliases: [], latitude: 32.8497, longitude: 35.0697 },
+  { name: 'שפרעם', nameEn: 'Shefaram', aliases: ['Shefa-Amr'], latitude: 32.8056, longitude: 35.1694 },
+  { name: 'טמרה', nameEn: 'Tamra', aliases: [], latitude: 32.8536, longitude: 35.1978 },
+  { name: 'סח\'נין', nameEn: 'Sakhnin', aliases: ['סכנין'], latitude: 32.8647, longitude: 35.2972 },
+  { name: 'כרמיאל', nameEn: 'Karmiel', aliases: ['Carmiel'], latitude: 32.9190, longitude: 35.2951 },
+  { name: 'עכו', nameEn: 'Acre', aliases: ['Akko', 'Acco'], latitude: 32.9281, longitude: 35.0818 },
+  { name: 'נהריה', nameEn: 'Nahariya', aliases: [], latitude: 33.0058, longitude: 35.0940 },
+  { name: 'מעלות-תרשיחא', nameEn: 'Maalot-Tarshiha', aliases: ['מעלות', 'Maalot'], latitude: 33.0167, longitude: 35.2833 },
+  { name: 'צפת', nameEn: 'Safed', aliases: ['Tzfat', 'Zefat'], latitude: 32.9646, longitude: 35.4960 },
+  { name: 'ראש פינה', nameEn: 'Rosh Pina', aliases: [], latitude: 32.9689, longitude: 35.5422 },
+  { name: 'קריית שמונה', nameEn: 'Kiryat Shmona', aliases: [], latitude: 33.2075, longitude: 35.5697 },
+  { name: 'טבריה', nameEn: 'Tiberias', aliases: ['Tveria'], latitude: 32.7922, longitude: 35.5312 },
+  { name: 'קצרין', nameEn: 'Katzrin', aliases: ['Qatzrin'], latitude: 32.9925, longitude: 35.6911 },
+  { name: 'בית שאן', nameEn: 'Beit Shean', aliases: ['Bet Shean'], latitude: 32.4973, longitude: 35.4966 },
+  { name: 'אריאל', nameEn: 'Ariel', aliases: [], latitude: 32.1061, longitude: 35.1883 },
+  { name: 'מעלה אדומים', nameEn: 'Maale Adumim', aliases: [], latitude: 31.7772, longitude: 35.2983 },
+  { name: 'מבשרת ציון', nameEn: 'Mevaseret Zion', aliases: ['מבשרת', 'Mevaseret'], latitude: 31.8017, longitude: 35.1506 },
+  { name: 'ביתר עילית', nameEn: 'Beitar Illit', aliases: ['Betar Illit'], latitude: 31.6967, longitude: 35.1153 },
+  { name: 'אפרת', nameEn: 'Efrat', aliases: [], latitude: 31.6539, longitude: 35.1500 },
+  { name: 'שדרות', nameEn: 'Sderot', aliases: [], latitude: 31.5250, longitude: 34.5969 },
+  { name: 'נתיבות', nameEn: 'Netivot', aliases: [], latitude: 31.4231, longitude: 34.5886 },
+  { name: 'אופקים', nameEn: 'Ofakim', aliases: [], latitude: 31.3140, longitude: 34.6203 },
+  { name: 'רהט', nameEn: 'Rahat', aliases: [], latitude: 31.3925, longitude: 34.7544 },
+  { name: 'עומר', nameEn: 'Omer', aliases: [], latitude: 31.2650, longitude: 34.8500 },
+  { name: 'ערד', nameEn: 'Arad', aliases: [], latitude: 31.2589, longitude: 35.2128 },
+  { name: 'דימונה', nameEn: 'Dimona', aliases: [], latitude: 31.0700, longitude: 35.0333 },
+  { name: 'ירוחם', nameEn: 'Yeruham', aliases: [], latitude: 30.9878, longitude: 34.9311 },
+  { name: 'מצפה רמון', nameEn: 'Mitzpe Ramon', aliases: [], latitude: 30.6100, longitude: 34.8014 },
+  { name: 'אילת', nameEn: 'Eilat', aliases: ['Elat'], latitude: 29.5577, longitude: 34.9519 }
+];
+
+const FINAL_LETTERS: Record<string, string> = { 'ך': 'כ', 'ם': 'מ', 'ן': 'נ', 'ף': 'פ', 'ץ': 'צ' };
+
+/**
+ * Reduce a place name to a form that ignores spelling noise: case, diacritics and niqqud,
+ * final letters, quotes (ת"א, Modi'in), hyphens and extra spaces
+ */
+export function normalizeLocalityName(name: string): string {
+  return name
+    .toLowerCase()
+    // Hyphens, including the Hebrew maqaf, separate words
+    .replace(/[-\u05be\u2013_.]/g, ' ')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f\u0591-\u05c7]/g, '')
+    .replace(/["'`\u05f3\u05f4\u2019]/g, '')
+    .replace(/[ךםןףץ]/g, c => FINAL_LETTERS[c])
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Every name and alias, normalized. Names shared by two localities are left out.
+const localityIndex = new Map<string, Locality | null>();
+for (const locality of ISRAELI_LOCALITIES) {
+  for (const name of [locality.name, locality.nameEn, ...locality.aliases]) {
+    const key = normalizeLocalityName(name);
+    const existing = localityIndex.get(key);
+    localityIndex.set(key, existing === undefined || existing === locality ? locality : null);
+  }
+}
+
+/**
+ * Levenshtein distance, giving up once it exceeds max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    if (Math.min(...current) > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Exact match of a normalized name, also without a leading ב/ל ("בחיפה", "לתל אביב")
+ */
+function matchExact(key: string): Locality | null {
+  const locality = localityIndex.get(key);
+  if (locality) {
+    return locality;
+  }
+  return /^[בל]/.test(key) ? localityIndex.get(key.slice(1)) ?? null : null;
+}
+
+// Typos tolerated by fuzzy matching. Two edits are enough to turn a locality missing from
+// the gazetteer into one in it (Kiryat Arba into Kiryat Ata), so only one is allowed.
+const MAX_TYPO_DISTANCE = 1;
+
+/**
+ * Closest name within one typo. Short names must match exactly, and a tie between
+ * two localities is no match.
+ */
+function matchFuzzy(key: string): Locality | null {
+  if (key.length <= 3) {
+    return null;
+  }
+
+  let best: Locality | null = null;
+  let bestDistance = MAX_TYPO_DISTANCE + 1;
+  let tied = false;
+
+  for (const [name, locality] of localityIndex) {
+    if (!locality) continue;
+    const distance = editDistance(key, name, MAX_TYPO_DISTANCE);
+    if (distance < bestDistance) {
+      best = locality;
+      bestDistance = distance;
+      tied = false;
+    } else if (distance === bestDistance && best !== locality) {
+      tied = true;
+    }
+  }
+
+  return best && !tied ? best : null;
+}
+
+/**
+ * Find the locality a free-text location refers to. The whole text is tried first, then
+ * each comma-separated part from the last ("הרצל 5, חיפה", "Tel Aviv, Israel").
+ */
+export function findLocality(location: string): Locality | null {
+  const whole = normalizeLocalityName(location);
+  const parts = location.split(',').map(normalizeLocalityName).filter(Boolean).reverse();
+  const candidates = [whole, ...parts.filter(part => part !== whole)];
+
+  for (const candidate of candidates) {
+    const locality = matchExact(candidate);
+    if (locality) return locality;
+  }
+
+  for (const candidate of candidates) {
+    const locality = matchFuzzy(candidate);
+    if (locality) return locality;
+  }
+
+  return null;
+}
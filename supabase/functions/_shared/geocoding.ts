@@ -0,0 +1,105 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
+import { findLocality, normalizeLocalityName } from "./gazetteer.ts";
+import { runInBackground } from "./background.ts";
+import { logger, Logger } from "./logger.ts";
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+// Places the geocoder found nothing for are looked up again after this many days
+const GEOCODE_MISS_TTL_DAYS = 30;
+
+/**
+ * Coordinates of a location: from the gazetteer for known Israeli localities, otherwise
+ * from the geocode cache, and only then from the Google Geocoding API
+ */
+export async function getCoordinates(
+  supabase: SupabaseClient,
+  location: string,
+  log: Logger = logger
+): Promise<Coordinates | null> {
+  const locality = findLocality(location);
+  if (locality) {
+    return { lat: locality.latitude, lng: locality.longitude };
+  }
+
+  const query = normalizeLocalityName(location).slice(0, 200);
+
+  const { data: cached, error: cacheError } = await supabase
+    .from('geocode_cache')
+    .select('latitude, longitude, created_at')
+    .eq('query', query)
+    .maybeSingle();
+
+  if (cacheError) {
+    log.warn('Error reading geocode cache', { error: cacheError });
+  }
+
+  if (cached) {
+    if (cached.latitude !== null && cached.longitude !== null) {
+      return { lat: cached.latitude, lng: cached.longitude };
+    }
+    const ageDays = (Date.now() - new Date(cached.created_at).getTime()) / 86_400_000;
+    if (ageDays < GEOCODE_MISS_TTL_DAYS) {
+      return null;
+    }
+  }
+
+  const result = await geocodeWithGoogle(location, log);
+
+  // Errors (no API key, quota, network) are not cached, so the place is retried next time
+  if (result !== undefined) {
+    runInBackground(
+      supabase
+        .from('geocode_cache')
+        .upsert({
+          query,
+          latitude: result?.lat ?? null,
+          longitude: result?.lng ?? null,
+          created_at: new Date().toISOString()
+        })
+        .throwOnError(),
+      'geocode cache write',
+      log
+    );
+  }
+
+  return result ?? null;
+}
+
+/**
+ * Look a place up with the Google Geocoding API. Returns null when Google found nothing,
+ * and undefined when the lookup could not be made.
+ */
+async function geocodeWithGoogle(location: string, log: Logger): Promise<Coordinates | null | undefined> {
+  const apiKey = Deno.env.get('GOOGLE_GEOCODING_API_KEY');
+  if (!apiKey) {
+    log.warn('Google Geocoding API key not configured, location left without coordinates', { location });
+    return undefined;
+  }
+
+  try {
+    const encodedLocation = encodeURIComponent(`${location}, Israel`);
+    const url = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodedLocation}&key=${apiKey}&language=he`;
+
+    const response = await fetch(url);
+    const data = await response.json();
+
+    if (data.status === 'OK' && data.results && data.results.length > 0) {
+      const coordinates = data.results[0].geometry.location;
+      return { lat: coordinates.lat, lng: coordinates.lng };
+    }
+
+    if (data.status === 'ZERO_RESULTS') {
+      return null;
+    }
+
+    log.warn('Geocoding failed', { location, status: data.status });
+  } catch (err) {
+    log.error('Geocoding error', { location, error: err });
+  }
+
+  return undefined;
+}
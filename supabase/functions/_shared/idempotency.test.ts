@@ -0,0 +1,39 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.177.0/testing/asserts.ts";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
+import { Logger } from "./logger.ts";
+import { checkIdempotencyKey } from "./idempotency.ts";
+
+const silentLogger: Logger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+/**
+ * Client with no stored key, whose reservation insert fails with the given error
+ */
+function clientFailingInsert(error: { code: string; message: string }): SupabaseClient {
+  const client = {
+    from: (_table: string) => ({
+      select: () => ({
+        eq: () => ({ eq: () => ({ single: () => Promise.resolve({ data: null, error: null }) }) })
+      }),
+      insert: () => ({
+        select: () => ({ single: () => Promise.resolve({ data: null, error }) })
+      })
+    })
+  };
+  return client as unknown as SupabaseClient;
+}
+
+function reserve(supabase: SupabaseClient) {
+  return checkIdempotencyKey(supabase, crypto.randomUUID(), 'key-1', 'hash', crypto.randomUUID(), silentLogger);
+}
+
+Deno.test('checkIdempotencyKey reports a key reserved concurrently as in progress', async () => {
+  const supabase = clientFailingInsert({ code: '23505', message: 'duplicate key value violates unique constraint' });
+
+  assertEquals(await reserve(supabase), { status: 'in_progress' });
+});
+
+Deno.test('checkIdempotencyKey throws other database errors', async () => {
+  const supabase = clientFailingInsert({ code: '08006', message: 'connection failure' });
+
+  await assertRejects(() => reserve(supabase));
+});
@@ -0,0 +1,171 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
+import { logger, Logger } from "./logger.ts";
+
+export interface IdempotencyRecord {
+  id: string;
+  request_hash: string;
+  request_id: string;
+  lead_id: string | null;
+  response_status: number | null;
+  completed_at: string | null;
+}
+
+export interface IdempotencyCheckResult {
+  status: 'new' | 'replay' | 'mismatch' | 'in_progress';
+  record?: IdempotencyRecord;
+}
+
+// How long an idempotency key is remembered per API key
+export const IDEMPOTENCY_WINDOW_HOURS = 24;
+
+// Postgres error code of the insert that lost the race for a key
+const UNIQUE_VIOLATION = '23505';
+
+// Allowed idempotency key format (printable ASCII, up to 255 chars)
+const IDEMPOTENCY_KEY_REGEX = /^[\x21-\x7E]{1,255}$/;
+
+/**
+ * Extract Idempotency-Key from request headers
+ */
+export function extractIdempotencyKey(req: Request): string | null {
+  return req.headers.get('Idempotency-Key') || null;
+}
+
+/**
+ * Validate idempotency key format
+ */
+export function isValidIdempotencyKey(key: string): boolean {
+  return IDEMPOTENCY_KEY_REGEX.test(key);
+}
+
+/**
+ * Serialize a value with sorted object keys so equal bodies hash equally
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Hash a request body using SHA-256
+ */
+export async function hashRequestBody(body: unknown): Promise<string> {
+  const encoder = new TextEncoder();
+  const data = encoder.encode(canonicalJson(body));
+  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+  const hashArray = Array.from(new Uint8Array(hashBuffer));
+  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Reserve an idempotency key for this request, or return the existing record.
+ * Database errors other than losing the reservation to a concurrent request are thrown.
+ */
+export async function checkIdempotencyKey(
+  supabase: SupabaseClient,
+  apiKeyId: string,
+  idempotencyKey: string,
+  requestHash: string,
+  requestId: string,
+  log: Logger = logger
+): Promise<IdempotencyCheckResult> {
+  const { data: existing } = await supabase
+    .from('api_idempotency_keys')
+    .select('id, request_hash, request_id, lead_id, response_status, completed_at, expires_at')
+    .eq('api_key_id', apiKeyId)
+    .eq('idempotency_key', idempotencyKey)
+    .single();
+
+  if (existing) {
+    // Expired keys are forgotten and can be reused
+    if (new Date(existing.expires_at) < new Date()) {
+      await supabase
+        .from('api_idempotency_keys')
+        .delete()
+        .eq('id', existing.id);
+    } else if (existing.request_hash !== requestHash) {
+      return { status: 'mismatch', record: existing };
+    } else if (!existing.completed_at) {
+      return { status: 'in_progress', record: existing };
+    } else {
+      return { status: 'replay', record: existing };
+    }
+  }
+
+  const expiresAt = new Date(Date.now() + IDEMPOTENCY_WINDOW_HOURS * 60 * 60 * 1000);
+
+  const { data: reserved, error } = await supabase
+    .from('api_idempotency_keys')
+    .insert({
+      api_key_id: apiKeyId,
+      idempotency_key: idempotencyKey,
+      request_hash: requestHash,
+      request_id: requestId,
+      expires_at: expiresAt.toISOString()
+    })
+    .select('id, request_hash, request_id, lead_id, response_status, completed_at')
+    .single();
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    // A concurrent request with the same key won the insert
+    log.info('Idempotency key reserved by a concurrent request', { idempotency_key: idempotencyKey });
+    return { status: 'in_progress' };
+  }
+
+  if (error || !reserved) {
+    // Anything else is a database failure, not a conflict
+    throw error || new Error('Idempotency key reservation returned no row');
+  }
+
+  return { status: 'new', record: reserved };
+}
+
+/**
+ * Store the outcome of a successful request under its idempotency key
+ */
+export async function completeIdempotencyKey(
+  supabase: SupabaseClient,
+  recordId: string,
+  responseStatus: number,
+  leadId: string | null,
+  log: Logger = logger
+): Promise<void> {
+  const { error } = await supabase
+    .from('api_idempotency_keys')
+    .update({
+      response_status: responseStatus,
+      lead_id: leadId,
+      completed_at: new Date().toISOString()
+    })
+    .eq('id', recordId);
+
+  if (error) {
+    log.error('Error completing idempotency key', { error });
+  }
+}
+
+/**
+ * Release a reserved idempotency key so a failed request can be retried
+ */
+export async function releaseIdempotencyKey(
+  supabase: SupabaseClient,
+  recordId: string,
+  log: Logger = logger
+): Promise<void> {
+  const { error } = await supabase
+    .from('api_idempotency_keys')
+    .delete()
+    .eq('id', recordId);
+
+  if (error) {
+    log.error('Error releasing idempotency key', { error });
+  }
+}
@@ -0,0 +1,97 @@
+import { assertEquals } from "https://deno.land/std@0.177.0/testing/asserts.ts";
+import { findInvalidCidr, isIpAddress, isIpAllowed, isIpInCidr, parseCidr } from "./ipAllowlist.ts";
+
+Deno.test('parseCidr parses IPv4 and IPv6 ranges and rejects invalid ones', () => {
+  const cases: [string, { version: 4 | 6; prefixLength: number } | null][] = [
+    ['10.0.0.0/8', { version: 4, prefixLength: 8 }],
+    ['203.0.113.7', { version: 4, prefixLength: 32 }],
+    ['0.0.0.0/0', { version: 4, prefixLength: 0 }],
+    ['2001:db8::/32', { version: 6, prefixLength: 32 }],
+    ['::1', { version: 6, prefixLength: 128 }],
+    ['::/0', { version: 6, prefixLength: 0 }],
+    ['::ffff:192.0.2.0/24', { version: 4, prefixLength: 24 }],
+    [' 192.0.2.0/24 ', { version: 4, prefixLength: 24 }],
+    ['10.0.0.0/33', null],
+    ['2001:db8::/129', null],
+    ['10.0.0.0/8/8', null],
+    ['10.0.0.0/-1', null],
+    ['10.0.0.0/abc', null],
+    ['256.0.0.1', null],
+    ['10.0.0', null],
+    ['10.0.0.01a', null],
+    ['2001:db8:::1', null],
+    ['2001:db8::1::2', null],
+    ['1:2:3:4:5:6:7:8:9', null],
+    ['fe80::1%eth0', { version: 6, prefixLength: 128 }],
+    ['example.com', null],
+    ['', null]
+  ];
+
+  for (const [cidr, expected] of cases) {
+    const parsed = parseCidr(cidr);
+    assertEquals(parsed && { version: parsed.version, prefixLength: parsed.prefixLength }, expected, cidr);
+  }
+});
+
+Deno.test('isIpInCidr matches addresses at the range boundaries', () => {
+  const cases: [string, string, boolean][] = [
+    ['10.0.0.0', '10.0.0.0/8', true],
+    ['10.255.255.255', '10.0.0.0/8', true],
+    ['11.0.0.0', '10.0.0.0/8', false],
+    ['9.255.255.255', '10.0.0.0/8', false],
+    ['192.0.2.128', '192.0.2.128/25', true],
+    ['192.0.2.127', '192.0.2.128/25', false],
+    ['203.0.113.7', '203.0.113.7', true],
+    ['203.0.113.8', '203.0.113.7', false],
+    ['203.0.113.7', '203.0.113.7/32', true],
+    ['8.8.8.8', '0.0.0.0/0', true],
+    ['2001:db8::1', '2001:db8::/32', true],
+    ['2001:db8:ffff:ffff:ffff:ffff:ffff:ffff', '2001:db8::/32', true],
+    ['2001:db9::', '2001:db8::/32', false],
+    ['2001:0DB8:0000:0000:0000:0000:0000:0001', '2001:db8::/32', true],
+    ['[2001:db8::1]', '2001:db8::/32', true],
+    ['::1', '::1/128', true],
+    ['::2', '::1/128', false],
+    ['2001:db8::1', '::/0', true],
+    // IPv4-mapped IPv6 addresses match IPv4 ranges, and the other way around
+    ['::ffff:10.1.2.3', '10.0.0.0/8', true],
+    ['10.1.2.3', '::ffff:10.0.0.0/8', true],
+    // IPv4 addresses never match IPv6 ranges
+    ['10.1.2.3', '::/0', false],
+    ['2001:db8::1', '0.0.0.0/0', false],
+    ['not-an-ip', '0.0.0.0/0', false],
+    ['10.1.2.3', 'not-a-range', false]
+  ];
+
+  for (const [ip, cidr, expected] of cases) {
+    assertEquals(isIpInCidr(ip, cidr), expected, `${ip} in ${cidr}`);
+  }
+});
+
+Deno.test('isIpAllowed allows every IP without an allowlist and rejects unknown IPs with one', () => {
+  assertEquals(isIpAllowed('203.0.113.7', null), true);
+  assertEquals(isIpAllowed('203.0.113.7', undefined), true);
+  assertEquals(isIpAllowed(null, []), true);
+
+  const allowlist = ['203.0.113.0/24', '2001:db8::/32'];
+  assertEquals(isIpAllowed('203.0.113.7', allowlist), true);
+  assertEquals(isIpAllowed('2001:db8::42', allowlist), true);
+  assertEquals(isIpAllowed('198.51.100.7', allowlist), false);
+  assertEquals(isIpAllowed(null, allowlist), false);
+  assertEquals(isIpAllowed('garbage', allowlist), false);
+});
+
+Deno.test('findInvalidCidr reports the first invalid entry', () => {
+  assertEquals(findInvalidCidr(['10.0.0.0/8', '2001:db8::/32']), null);
+  assertEquals(findInvalidCidr(['10.0.0.0/8', '10.0.0.0/40', 'nope']), '10.0.0.0/40');
+  assertEquals(findInvalidCidr([42]), '42');
+});
+
+Deno.test('isIpAddress accepts bare and bracketed addresses only', () => {
+  assertEquals(isIpAddress('203.0.113.7'), true);
+  assertEquals(isIpAddress('2001:db8::1'), true);
+  assertEquals(isIpAddress('[2001:db8::1]'), true);
+  assertEquals(isIpAddress('203.0.113.0/24'), false);
+  assertEquals(isIpAddress('example.com'), false);
+  assertEquals(isIpAddress('203.0.113.7:443'), false);
+});
@@ -0,0 +1,154 @@
+/**
+ * CIDR allowlist matching for IPv4 and IPv6
+ */
+
+interface ParsedCidr {
+  version: 4 | 6;
+  address: bigint;
+  prefixLength: number;
+}
+
+// Maximum number of CIDR ranges per API key
+export const MAX_ALLOWED_CIDRS = 20;
+
+/**
+ * Parse an IPv4 address into a 32-bit integer
+ */
+function parseIpv4(ip: string): bigint | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const octet = Number(part);
+    if (octet > 255) return null;
+    value = (value << 8n) | BigInt(octet);
+  }
+  return value;
+}
+
+/**
+ * Parse an IPv6 address (with :: compression and optional embedded IPv4) into a 128-bit integer
+ */
+function parseIpv6(ip: string): bigint | null {
+  // Strip zone index (fe80::1%eth0)
+  const address = ip.split('%')[0];
+  if (!/^[0-9a-fA-F:.]+$/.test(address)) return null;
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+
+  const toGroups = (part: string): number[] | null => {
+    if (part === '') return [];
+    const groups: number[] = [];
+    const segments = part.split(':');
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      // Embedded IPv4 is only allowed as the last segment
+      if (segment.includes('.')) {
+        if (i !== segments.length - 1) return null;
+        const ipv4 = parseIpv4(segment);
+        if (ipv4 === null) return null;
+        groups.push(Number(ipv4 >> 16n), Number(ipv4 & 0xffffn));
+      } else {
+        if (!/^[0-9a-fA-F]{1,4}$/.test(segment)) return null;
+        groups.push(parseInt(segment, 16));
+      }
+    }
+    return groups;
+  };
+
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  if (!head || !tail) return null;
+
+  let groups: number[];
+  if (halves.length === 2) {
+    const missing = 8 - head.length - tail.length;
+    if (missing < 1) return null;
+    groups = [...head, ...new Array(missing).fill(0), ...tail];
+  } else {
+    groups = head;
+  }
+  if (groups.length !== 8) return null;
+
+  return groups.reduce((value, group) => (value << 16n) | BigInt(group), 0n);
+}
+
+/**
+ * Parse an IP address. IPv4-mapped IPv6 addresses (::ffff:1.2.3.4) are treated as IPv4.
+ */
+function parseIp(ip: string): { version: 4 | 6; address: bigint } | null {
+  const trimmed = ip.trim().replace(/^\[|\]$/g, '');
+
+  const ipv4 = parseIpv4(trimmed);
+  if (ipv4 !== null) return { version: 4, address: ipv4 };
+
+  const ipv6 = parseIpv6(trimmed);
+  if (ipv6 === null) return null;
+
+  if (ipv6 >> 32n === 0xffffn) {
+    return { version: 4, address: ipv6 & 0xffffffffn };
+  }
+  return { version: 6, address: ipv6 };
+}
+
+/**
+ * Check whether a string is an IPv4 or IPv6 address (brackets allowed)
+ */
+export function isIpAddress(value: string): boolean {
+  return parseIp(value) !== null;
+}
+
+/**
+ * Parse a CIDR range ("10.0.0.0/8", "2001:db8::/32"). A bare address is a single-host range.
+ */
+export function parseCidr(cidr: string): ParsedCidr | null {
+  const [ipPart, prefixPart, ...rest] = cidr.trim().split('/');
+  if (rest.length > 0) return null;
+
+  const ip = parseIp(ipPart);
+  if (!ip) return null;
+
+  const maxPrefix = ip.version === 4 ? 32 : 128;
+  let prefixLength = maxPrefix;
+  if (prefixPart !== undefined) {
+    if (!/^\d{1,3}$/.test(prefixPart)) return null;
+    prefixLength = Number(prefixPart);
+    if (prefixLength > maxPrefix) return null;
+  }
+
+  return { version: ip.version, address: ip.address, prefixLength };
+}
+
+/**
+ * Check whether an IP address falls within a CIDR range
+ */
+export function isIpInCidr(ip: string, cidr: string): boolean {
+  const parsedIp = parseIp(ip);
+  const range = parseCidr(cidr);
+  if (!parsedIp || !range || parsedIp.version !== range.version) return false;
+
+  const bits = BigInt(range.version === 4 ? 32 : 128);
+  const hostBits = bits - BigInt(range.prefixLength);
+  return (parsedIp.address >> hostBits) === (range.address >> hostBits);
+}
+
+/**
+ * Check an IP against an allowlist. An empty allowlist allows every IP;
+ * a non-empty allowlist rejects requests whose IP is unknown.
+ */
+export function isIpAllowed(ip: string | null, allowedCidrs: string[] | null | undefined): boolean {
+  if (!allowedCidrs || allowedCidrs.length === 0) return true;
+  if (!ip) return false;
+  return allowedCidrs.some(cidr => isIpInCidr(ip, cidr));
+}
+
+/**
+ * Validate a requested allowlist, returning the first invalid entry if any
+ */
+export function findInvalidCidr(cidrs: unknown[]): string | null {
+  const invalid = cidrs.find(cidr => typeof cidr !== 'string' || parseCidr(cidr) === null);
+  return invalid === undefined ? null : String(invalid);
+}
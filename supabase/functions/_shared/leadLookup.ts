@@ -0,0 +1,147 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
+import { redact, CONTACT_REDACTION_POLICY } from "./redaction.ts";
+import { logger, Logger } from "./logger.ts";
+
+export interface LeadListFilters {
+  status?: string;
+  createdFrom?: string;
+  createdTo?: string;
+  profession?: string;
+  submittedBy: 'key' | 'professional';
+  cursor?: string;
+  limit: number;
+}
+
+export interface LeadListResult {
+  leads: Record<string, unknown>[];
+  nextCursor: string | null;
+  error?: string;
+  errorCode?: string;
+  field?: string;
+}
+
+// Pagination limits for lead listing
+export const DEFAULT_LEAD_PAGE_SIZE = 20;
+export const MAX_LEAD_PAGE_SIZE = 100;
+
+export const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const LEAD_COLUMNS = 'id, title, description, location, profession, budget, includes_vat, share_percentage, ' +
+  'client_name, client_phone, client_phone_e164, work_date, work_time, work_timeframe, constraints, status, latitude, longitude, ' +
+  'image_urls, api_key_id, created_at';
+
+/**
+ * Mask client contact data unless the caller may see it
+ */
+export async function formatLead(
+  lead: Record<string, unknown>,
+  includeContact: boolean
+): Promise<Record<string, unknown>> {
+  return includeContact ? { ...lead } : (await redact(lead, CONTACT_REDACTION_POLICY))!;
+}
+
+/**
+ * Encode a keyset pagination cursor
+ */
+export function encodeCursor(createdAt: string, id: string): string {
+  return btoa(`${createdAt}|${id}`);
+}
+
+/**
+ * Decode a keyset pagination cursor
+ */
+export function decodeCursor(cursor: string): { createdAt: string; id: string } | null {
+  try {
+    const [createdAt, id] = atob(cursor).split('|');
+    if (!createdAt || !UUID_REGEX.test(id) || isNaN(Date.parse(createdAt)) || /[,()]/.test(createdAt)) return null;
+    return { createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get a single lead owned by the professional
+ */
+export async function getLeadById(
+  supabase: SupabaseClient,
+  professionalId: string,
+  leadId: string
+): Promise<Record<string, unknown> | null> {
+  const { data, error } = await supabase
+    .from('leads')
+    .select(LEAD_COLUMNS)
+    .eq('id', leadId)
+    .eq('professional_id', professionalId)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * List leads for a professional (or a single API key), newest first
+ */
+export async function listLeads(
+  supabase: SupabaseClient,
+  professionalId: string,
+  apiKeyId: string,
+  filters: LeadListFilters,
+  log: Logger = logger
+): Promise<LeadListResult> {
+  let query = supabase
+    .from('leads')
+    .select(LEAD_COLUMNS)
+    .eq('professional_id', professionalId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(filters.limit + 1);
+
+  if (filters.submittedBy === 'key') {
+    query = query.eq('api_key_id', apiKeyId);
+  }
+
+  if (filters.status) {
+    query = query.eq('status', filters.status);
+  }
+
+  if (filters.createdFrom) {
+    query = query.gte('created_at', filters.createdFrom);
+  }
+
+  if (filters.createdTo) {
+    query = query.lte('created_at', filters.createdTo);
+  }
+
+  if (filters.profession) {
+    query = query.contains('profession', [filters.profession]);
+  }
+
+  if (filters.cursor) {
+    const cursor = decodeCursor(filters.cursor);
+    if (!cursor) {
+      return { leads: [], nextCursor: null, error: 'Invalid cursor', errorCode: 'invalid_cursor', field: 'cursor' };
+    }
+    query = query.or(`created_at.lt.${cursor.createdAt},and(created_at.eq.${cursor.createdAt},id.lt.${cursor.id})`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    log.error('Error listing leads', { error });
+    return { leads: [], nextCursor: null, error: 'Failed to fetch leads', errorCode: 'database_error' };
+  }
+
+  const rows = data || [];
+  const hasMore = rows.length > filters.limit;
+  const page = hasMore ? rows.slice(0, filters.limit) : rows;
+  const last = page[page.length - 1];
+
+  return {
+    leads: page,
+    nextCursor: hasMore && last ? encodeCursor(last.created_at, last.id) : null
+  };
+}
@@ -0,0 +1,176 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
+import { logger, Logger } from "./logger.ts";
+
+// A null limit means unlimited
+export interface LeadQuotaConfig {
+  leads_per_day: number | null;
+  leads_per_month: number | null;
+}
+
+export interface LeadQuotaResult {
+  allowed: boolean;
+  limits: LeadQuotaConfig;
+  scope: 'professional' | 'global' | 'default';
+  used: {
+    day: number;
+    month: number;
+  };
+  reset: {
+    day: string;
+    month: string;
+  };
+  error?: string;
+  errorCode?: string;
+  resetAt?: string;
+}
+
+const DEFAULT_LEAD_QUOTA: LeadQuotaConfig = {
+  leads_per_day: 100,
+  leads_per_month: 2000
+};
+
+/**
+ * Get the lead quota for a professional, falling back to the global default
+ */
+async function getLeadQuotaConfig(
+  supabase: SupabaseClient,
+  professionalId: string
+): Promise<{ config: LeadQuotaConfig; scope: LeadQuotaResult['scope'] }> {
+  const { data: proConfig } = await supabase
+    .from('api_lead_quota_config')
+    .select('leads_per_day, leads_per_month')
+    .eq('scope', 'professional')
+    .eq('scope_id', professionalId)
+    .eq('is_active', true)
+    .single();
+
+  if (proConfig) return { config: proConfig, scope: 'professional' };
+
+  const { data: globalConfig } = await supabase
+    .from('api_lead_quota_config')
+    .select('leads_per_day, leads_per_month')
+    .eq('scope', 'global')
+    .is('scope_id', null)
+    .eq('is_active', true)
+    .single();
+
+  if (globalConfig) return { config: globalConfig, scope: 'global' };
+
+  return { config: DEFAULT_LEAD_QUOTA, scope: 'default' };
+}
+
+/**
+ * Start of the next UTC day and month
+ */
+function getQuotaResets(now: Date): { day: string; month: string } {
+  return {
+    day: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)).toISOString(),
+    month: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)).toISOString()
+  };
+}
+
+/**
+ * Reserve quota for `count` leads before inserting them.
+ * Call releaseLeadQuota if the leads end up not being created.
+ */
+export async function reserveLeadQuota(
+  supabase: SupabaseClient,
+  professionalId: string,
+  count = 1,
+  log: Logger = logger
+): Promise<LeadQuotaResult> {
+  const { config, scope } = await getLeadQuotaConfig(supabase, professionalId);
+
+  const { data, error } = await supabase.rpc('reserve_lead_quota', {
+    p_professional_id: professionalId,
+    p_count: count,
+    p_limit_day: config.leads_per_day,
+    p_limit_month: config.leads_per_month
+  });
+
+  const row = Array.isArray(data) ? data[0] : data;
+
+  if (error || !row) {
+    // Fail open: a tracking error should not block legitimate leads
+    log.error('Error reserving lead quota', { error });
+    return { allowed: true, limits: config, scope, used: { day: 0, month: 0 }, reset: getQuotaResets(new Date()) };
+  }
+
+  const result: LeadQuotaResult = {
+    allowed: row.allowed,
+    limits: config,
+    scope,
+    used: {
+      day: row.used_day,
+      month: row.used_month
+    },
+    reset: {
+      day: new Date(row.reset_day).toISOString(),
+      month: new Date(row.reset_month).toISOString()
+    }
+  };
+
+  if (!row.allowed) {
+    // The monthly quota resets later, so report it when it is the one exhausted
+    const monthExhausted = config.leads_per_month !== null && row.used_month + count > config.leads_per_month;
+    result.errorCode = 'quota_exceeded';
+    result.error = monthExhausted
+      ? `Monthly lead quota of ${config.leads_per_month} reached`
+      : `Daily lead quota of ${config.leads_per_day} reached`;
+    result.resetAt = monthExhausted ? result.reset.month : result.reset.day;
+  }
+
+  return result;
+}
+
+/**
+ * Give back quota reserved for leads that were not created
+ */
+export async function releaseLeadQuota(
+  supabase: SupabaseClient,
+  professionalId: string,
+  count = 1,
+  log: Logger = logger
+): Promise<void> {
+  const { error } = await supabase.rpc('release_lead_quota', {
+    p_professional_id: professionalId,
+    p_count: count
+  });
+
+  if (error) {
+    log.error('Error releasing lead quota', { error });
+  }
+}
+
+/**
+ * Current quota consumption, without reserving anything
+ */
+export async function getLeadQuotaUsage(
+  supabase: SupabaseClient,
+  professionalId: string
+): Promise<LeadQuotaResult> {
+  const { config, scope } = await getLeadQuotaConfig(supabase, professionalId);
+  const now = new Date();
+  const today = now.toISOString().slice(0, 10);
+  const thisMonth = `${today.slice(0, 7)}-01`;
+
+  const { data: usage } = await supabase
+    .from('api_lead_quota_usage')
+    .select('day_start, day_count, month_start, month_count')
+    .eq('professional_id', professionalId)
+    .single();
+
+  const used = {
+    day: usage && usage.day_start === today ? usage.day_count : 0,
+    month: usage && usage.month_start === thisMonth ? usage.month_count : 0
+  };
+
+  return {
+    allowed: (config.leads_per_day === null || used.day < config.leads_per_day) &&
+      (config.leads_per_month === null || used.month < config.leads_per_month),
+    limits: config,
+    scope,
+    used,
+    reset: getQuotaResets(now)
+  };
+}
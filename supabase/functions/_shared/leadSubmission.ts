@@ -1,4 +1,9 @@
 import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
+import { reserveLeadQuota, releaseLeadQuota } from "./leadQuota.ts";
+import { logger, Logger } from "./logger.ts";
+import { normalizeIsraeliPhone, NATIONAL_PHONE_PATTERN } from "./phone.ts";
+import { findLocality } from "./gazetteer.ts";
+import { getCoordinates } from "./geocoding.ts";
 
 export interface LeadSubmissionRequest {
   description: string;
@@ -18,83 +23,298 @@ export interface LeadSubmissionRequest {
   longitude?: number;
 }
 
+export interface ValidationError {
+  field: string;
+  code: ValidationErrorCode;
+  message: string;
+}
+
+export const VALIDATION_ERROR_CODES = [
+  'required',
+  'invalid_type',
+  'too_short',
+  'invalid_format',
+  'invalid_enum',
+  'out_of_range',
+  'too_few_items',
+  'too_many_items'
+] as const;
+
+export type ValidationErrorCode = typeof VALIDATION_ERROR_CODES[number];
+
+export interface LeadValidationResult {
+  valid: boolean;
+  // First error, kept for clients that only read a single message
+  error?: string;
+  field?: string;
+  errors: ValidationError[];
+}
+
 export interface LeadSubmissionResult {
   success: boolean;
   leadId?: string;
+  // Client phone as stored
+  clientPhone?: string;
+  clientPhoneE164?: string;
   error?: string;
   errorCode?: string;
   field?: string;
+  errors?: ValidationError[];
+  resetAt?: string;
 }
 
-// Israeli phone format validation
-const ISRAELI_PHONE_REGEX = /^0\d{1,2}-?\d{7}$|^0\d{9}$/;
+export type BatchMode = 'all_or_nothing' | 'best_effort';
+
+export interface BatchItemResult {
+  index: number;
+  success: boolean;
+  leadId?: string;
+  clientPhone?: string;
+  clientPhoneE164?: string;
+  error?: string;
+  errorCode?: string;
+  field?: string;
+  errors?: ValidationError[];
+  resetAt?: string;
+}
+
+// Maximum number of leads in a single batch submission
+export const MAX_BATCH_SIZE = 50;
 
 // Valid work timeframes
-const VALID_TIMEFRAMES = ['מיידי', 'יומיים הקרובים', 'בשבוע הקרוב', 'עד חודש', 'חודש או יותר'];
+export const VALID_TIMEFRAMES = ['מיידי', 'יומיים הקרובים', 'בשבוע הקרוב', 'עד חודש', 'חודש או יותר'];
+
+// English aliases accepted for the work timeframes, stored as the Hebrew value
+export const WORK_TIMEFRAME_ALIASES: Record<string, string> = {
+  immediate: 'מיידי',
+  within_two_days: 'יומיים הקרובים',
+  within_week: 'בשבוע הקרוב',
+  within_month: 'עד חודש',
+  month_or_more: 'חודש או יותר'
+};
+
+export interface LeadFieldRule {
+  type: 'string' | 'number' | 'boolean' | 'array';
+  required?: boolean;
+  description: string;
+  example?: unknown;
+  // string: minimum length after trimming, format and allowed values
+  minLength?: number;
+  pattern?: RegExp;
+  enum?: string[];
+  // Alternative values (case-insensitive) mapped to an allowed value before validation
+  aliases?: Record<string, string>;
+  // Canonical form of the value, applied before validation; pattern then checks the canonical form
+  normalize?: (value: string) => string;
+  // number
+  exclusiveMinimum?: number;
+  minimum?: number;
+  maximum?: number;
+  // array of strings
+  minItems?: number;
+  maxItems?: number;
+  // Validation error for any failed check, unless the check has its own message
+  message: string;
+  maxItemsMessage?: string;
+}
 
 /**
- * Validate lead submission request
+ * Lead submission fields and their rules. This is the single source of truth for
+ * validateLeadRequest and for the LeadSubmissionRequest schema in the OpenAPI spec.
+ * Fields are validated in this order.
  */
-export function validateLeadRequest(data: LeadSubmissionRequest): { valid: boolean; error?: string; field?: string } {
-  // Required fields
-  if (!data.description || data.description.trim().length < 10) {
-    return { valid: false, error: 'Description must be at least 10 characters', field: 'description' };
-  }
-
-  if (!data.location || data.location.trim().length < 2) {
-    return { valid: false, error: 'Location (city) is required', field: 'location' };
+export const LEAD_FIELD_RULES: Record<keyof LeadSubmissionRequest, LeadFieldRule> = {
+  description: {
+    type: 'string',
+    required: true,
+    minLength: 10,
+    description: 'Description of the work needed',
+    example: 'צריך שיפוץ מטבח כולל החלפת ארונות',
+    message: 'Description must be at least 10 characters'
+  },
+  location: {
+    type: 'string',
+    required: true,
+    minLength: 2,
+    description: 'City where the work is needed. Known Israeli localities, in Hebrew or English, are stored under their Hebrew name',
+    example: 'תל אביב',
+    message: 'Location (city) is required'
+  },
+  profession: {
+    type: 'array',
+    required: true,
+    minItems: 1,
+    maxItems: 5,
+    description: 'Types of professional needed',
+    example: ['שיפוצים'],
+    message: 'At least one profession is required',
+    maxItemsMessage: 'Maximum 5 professions allowed'
+  },
+  client_name: {
+    type: 'string',
+    required: true,
+    minLength: 2,
+    description: 'Full name of the client',
+    example: 'ישראל ישראלי',
+    message: 'Client name is required'
+  },
+  client_phone: {
+    type: 'string',
+    required: true,
+    pattern: NATIONAL_PHONE_PATTERN,
+    normalize: phone => normalizeIsraeliPhone(phone)?.national ?? phone,
+    description: 'Israeli mobile or landline number, in national or +972 format. Spaces, hyphens, dots and parentheses are ignored.',
+    example: '0501234567',
+    message: 'Client phone must be a valid Israeli mobile or landline number (e.g., 0501234567 or +972-50-123-4567)'
+  },
+  budget: {
+    type: 'number',
+    exclusiveMinimum: 0,
+    description: 'Estimated budget in ILS',
+    example: 15000,
+    message: 'Budget must be a positive number'
+  },
+  includes_vat: {
+    type: 'boolean',
+    description: 'Whether the budget includes VAT (18%)',
+    message: 'includes_vat must be true or false'
+  },
+  share_percentage: {
+    type: 'number',
+    minimum: 5,
+    maximum: 40,
+    description: 'Commission percentage',
+    example: 10,
+    message: 'Share percentage must be between 5 and 40'
+  },
+  work_date: {
+    type: 'string',
+    pattern: /^\d{4}-\d{2}-\d{2}$/,
+    description: 'Preferred date (YYYY-MM-DD)',
+    example: '2025-01-20',
+    message: 'Work date must be in YYYY-MM-DD format'
+  },
+  work_time: {
+    type: 'string',
+    pattern: /^\d{2}:\d{2}$/,
+    description: 'Preferred time (HH:MM)',
+    example: '09:00',
+    message: 'Work time must be in HH:MM format'
+  },
+  work_timeframe: {
+    type: 'string',
+    enum: VALID_TIMEFRAMES,
+    aliases: WORK_TIMEFRAME_ALIASES,
+    description: 'When the client needs the work done',
+    example: 'מיידי',
+    message: `Work timeframe must be one of: ${VALID_TIMEFRAMES.join(', ')} (or ${Object.keys(WORK_TIMEFRAME_ALIASES).join(', ')})`
+  },
+  constraints: {
+    type: 'string',
+    description: 'Additional notes or constraints',
+    message: 'constraints must be a string'
+  },
+  media_urls: {
+    type: 'array',
+    description: 'URLs of images of the work',
+    message: 'media_urls must be an array of strings'
+  },
+  latitude: {
+    type: 'number',
+    description: 'Latitude of the work location (looked up from the city when omitted)',
+    message: 'latitude must be a number'
+  },
+  longitude: {
+    type: 'number',
+    description: 'Longitude of the work location (looked up from the city when omitted)',
+    message: 'longitude must be a number'
   }
+};
 
-  if (!data.profession || !Array.isArray(data.profession) || data.profession.length === 0) {
-    return { valid: false, error: 'At least one profession is required', field: 'profession' };
-  }
-
-  if (data.profession.length > 5) {
-    return { valid: false, error: 'Maximum 5 professions allowed', field: 'profession' };
-  }
+/**
+ * Check one field against its rule. Returns the failed check, or null if valid.
+ * Missing, null and empty-string values only fail required fields.
+ */
+function checkField(value: unknown, rule: LeadFieldRule): { code: ValidationErrorCode; message: string } | null {
+  const fail = (code: ValidationErrorCode, message = rule.message) => ({ code, message });
 
-  if (!data.client_name || data.client_name.trim().length < 2) {
-    return { valid: false, error: 'Client name is required', field: 'client_name' };
+  if (value === undefined || value === null || value === '') {
+    return rule.required ? fail('required') : null;
   }
 
-  if (!data.client_phone || !ISRAELI_PHONE_REGEX.test(data.client_phone)) {
-    return { valid: false, error: 'Client phone must be valid Israeli format (e.g., 0501234567)', field: 'client_phone' };
+  switch (rule.type) {
+    case 'string':
+      if (typeof value !== 'string') return fail('invalid_type');
+      if (rule.minLength !== undefined && value.trim().length < rule.minLength) return fail('too_short');
+      if (rule.pattern && !rule.pattern.test(value)) return fail('invalid_format');
+      if (rule.enum && !rule.enum.includes(value)) return fail('invalid_enum');
+      return null;
+
+    case 'number':
+      if (typeof value !== 'number' || isNaN(value)) return fail('invalid_type');
+      if (rule.exclusiveMinimum !== undefined && value <= rule.exclusiveMinimum) return fail('out_of_range');
+      if (rule.minimum !== undefined && value < rule.minimum) return fail('out_of_range');
+      if (rule.maximum !== undefined && value > rule.maximum) return fail('out_of_range');
+      return null;
+
+    case 'boolean':
+      return typeof value === 'boolean' ? null : fail('invalid_type');
+
+    case 'array':
+      if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) return fail('invalid_type');
+      if (rule.minItems !== undefined && value.length < rule.minItems) return fail('too_few_items');
+      if (rule.maxItems !== undefined && value.length > rule.maxItems) {
+        return fail('too_many_items', rule.maxItemsMessage || rule.message);
+      }
+      return null;
   }
+}
 
-  // Optional field validations
-  if (data.budget !== undefined && (typeof data.budget !== 'number' || data.budget <= 0)) {
-    return { valid: false, error: 'Budget must be a positive number', field: 'budget' };
-  }
+/**
+ * Replace field values with their canonical form (aliases, normalized phone numbers)
+ */
+export function normalizeLeadRequest(request: LeadSubmissionRequest): LeadSubmissionRequest {
+  const normalized = { ...request } as unknown as Record<string, unknown>;
 
-  if (data.share_percentage !== undefined) {
-    if (typeof data.share_percentage !== 'number' || data.share_percentage < 5 || data.share_percentage > 40) {
-      return { valid: false, error: 'Share percentage must be between 5 and 40', field: 'share_percentage' };
+  for (const [field, rule] of Object.entries(LEAD_FIELD_RULES)) {
+    const value = normalized[field];
+    if (typeof value !== 'string') {
+      continue;
+    }
+    if (rule.aliases) {
+      normalized[field] = rule.aliases[value.trim().toLowerCase()] ?? value;
+    }
+    if (rule.normalize) {
+      normalized[field] = rule.normalize(value);
     }
   }
 
-  if (data.work_timeframe && !VALID_TIMEFRAMES.includes(data.work_timeframe)) {
-    return { valid: false, error: `Work timeframe must be one of: ${VALID_TIMEFRAMES.join(', ')}`, field: 'work_timeframe' };
-  }
+  return normalized as unknown as LeadSubmissionRequest;
+}
 
-  if (data.work_date) {
-    const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-    if (!dateRegex.test(data.work_date)) {
-      return { valid: false, error: 'Work date must be in YYYY-MM-DD format', field: 'work_date' };
+/**
+ * Validate lead submission request against LEAD_FIELD_RULES, collecting every failed field
+ */
+export function validateLeadRequest(data: LeadSubmissionRequest): LeadValidationResult {
+  const errors: ValidationError[] = [];
+
+  for (const [field, rule] of Object.entries(LEAD_FIELD_RULES)) {
+    const failure = checkField((data as unknown as Record<string, unknown>)[field], rule);
+    if (failure) {
+      errors.push({ field, ...failure });
     }
   }
 
-  if (data.work_time) {
-    const timeRegex = /^\d{2}:\d{2}$/;
-    if (!timeRegex.test(data.work_time)) {
-      return { valid: false, error: 'Work time must be in HH:MM format', field: 'work_time' };
-    }
+  if (errors.length === 0) {
+    return { valid: true, errors };
   }
 
-  return { valid: true };
+  return { valid: false, error: errors[0].message, field: errors[0].field, errors };
 }
 
 /**
- * Process location - similar logic to main app
+ * Process location: known localities become their canonical Hebrew name,
+ * otherwise street parts are stripped (similar logic to main app)
  */
 function processLocation(location: string): string {
   const cleanLocation = location.trim();
@@ -104,6 +324,11 @@ function processLocation(location: string): string {
     return 'לא צוין';
   }
 
+  const locality = findLocality(cleanLocation);
+  if (locality) {
+    return locality.name;
+  }
+
   // Remove street-like patterns
   if (cleanLocation.match(/רחוב|דרך|שדרות|street|st\.|rd\.|ave\./i)) {
     // Try to extract just the city part
@@ -119,67 +344,15 @@ function processLocation(location: string): string {
 }
 
 /**
- * Get coordinates for a city using Google Geocoding API
+ * Build the leads table row for a validated request
  */
-async function getCoordinatesForCity(cityName: string): Promise<{ lat: number; lng: number } | null> {
-  const apiKey = Deno.env.get('GOOGLE_GEOCODING_API_KEY');
-  if (!apiKey) {
-    console.log('Google Geocoding API key not configured');
-    return null;
-  }
-
-  try {
-    const encodedCity = encodeURIComponent(`${cityName}, Israel`);
-    const url = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodedCity}&key=${apiKey}&language=he`;
-
-    const response = await fetch(url);
-    const data = await response.json();
-
-    if (data.status === 'OK' && data.results && data.results.length > 0) {
-      const location = data.results[0].geometry.location;
-      return { lat: location.lat, lng: location.lng };
-    }
-  } catch (err) {
-    console.error('Geocoding error:', err);
-  }
-
-  return null;
-}
-
-/**
- * Submit a lead to the database
- */
-export async function submitLead(
+async function prepareLeadData(
   supabase: SupabaseClient,
   professionalId: string,
-  request: LeadSubmissionRequest
-): Promise<LeadSubmissionResult> {
-  // Validate request
-  const validation = validateLeadRequest(request);
-  if (!validation.valid) {
-    return {
-      success: false,
-      error: validation.error,
-      errorCode: 'validation_error',
-      field: validation.field
-    };
-  }
-
-  // Verify professional exists
-  const { data: professional, error: proError } = await supabase
-    .from('professionals')
-    .select('id')
-    .eq('id', professionalId)
-    .single();
-
-  if (proError || !professional) {
-    return {
-      success: false,
-      error: 'Professional not found',
-      errorCode: 'professional_not_found'
-    };
-  }
-
+  request: LeadSubmissionRequest,
+  apiKeyId: string | null,
+  log: Logger
+): Promise<Record<string, unknown>> {
   // Process location
   const processedLocation = processLocation(request.location);
 
@@ -188,7 +361,7 @@ export async function submitLead(
   let longitude = request.longitude;
 
   if (!latitude || !longitude) {
-    const coords = await getCoordinatesForCity(processedLocation);
+    const coords = await getCoordinates(supabase, processedLocation, log);
     if (coords) {
       latitude = coords.lat;
       longitude = coords.lng;
@@ -206,9 +379,9 @@ export async function submitLead(
   // Generate title from professions
   const title = request.profession.join(' / ');
 
-  // Prepare lead data
-  const leadData = {
+  return {
     professional_id: professionalId,
+    api_key_id: apiKeyId,
     title,
     description: request.description,
     location: processedLocation,
@@ -219,6 +392,7 @@ export async function submitLead(
     share_percentage: request.share_percentage || 10,
     client_name: request.client_name,
     client_phone: request.client_phone,
+    client_phone_e164: normalizeIsraeliPhone(request.client_phone)!.e164,
     client_address: null,
     work_date: request.work_date || null,
     work_time: request.work_time || null,
@@ -230,6 +404,67 @@ export async function submitLead(
     longitude: longitude || null,
     image_urls: request.media_urls || null
   };
+}
+
+/**
+ * Check that the professional exists
+ */
+async function professionalExists(supabase: SupabaseClient, professionalId: string): Promise<boolean> {
+  const { data: professional, error: proError } = await supabase
+    .from('professionals')
+    .select('id')
+    .eq('id', professionalId)
+    .single();
+
+  return !proError && !!professional;
+}
+
+/**
+ * Submit a lead to the database
+ */
+export async function submitLead(
+  supabase: SupabaseClient,
+  professionalId: string,
+  request: LeadSubmissionRequest,
+  apiKeyId: string | null = null,
+  log: Logger = logger
+): Promise<LeadSubmissionResult> {
+  request = normalizeLeadRequest(request);
+
+  // Validate request
+  const validation = validateLeadRequest(request);
+  if (!validation.valid) {
+    return {
+      success: false,
+      error: validation.error,
+      errorCode: 'validation_error',
+      field: validation.field,
+      errors: validation.errors
+    };
+  }
+
+  // Verify professional exists
+  if (!await professionalExists(supabase, professionalId)) {
+    return {
+      success: false,
+      error: 'Professional not found',
+      errorCode: 'professional_not_found'
+    };
+  }
+
+  // Reserve the professional's lead quota
+  const quota = await reserveLeadQuota(supabase, professionalId, 1, log);
+  if (!quota.allowed) {
+    return {
+      success: false,
+      error: quota.error,
+      errorCode: quota.errorCode,
+      resetAt: quota.resetAt
+    };
+  }
+
+  // Prepare lead data
+  const leadData = await prepareLeadData(supabase, professionalId, request, apiKeyId, log);
 
   // Insert lead
   const { data: lead, error: insertError } = await supabase
@@ -239,7 +474,8 @@ export async function submitLead(
     .single();
 
   if (insertError) {
-    console.error('Lead insertion error:', insertError);
+    log.error('Lead insertion error', { error: insertError });
+    await releaseLeadQuota(supabase, professionalId, 1, log);
     return {
       success: false,
       error: 'Failed to create lead',
@@ -249,6 +485,134 @@ export async function submitLead(
 
   return {
     success: true,
-    leadId: lead.id
+    leadId: lead.id,
+    clientPhone: leadData.client_phone as string,
+    clientPhoneE164: leadData.client_phone_e164 as string
   };
 }
+
+/**
+ * Submit a batch of leads.
+ *
+ * - all_or_nothing: every item must validate, and all leads are inserted in a single statement
+ * - best_effort: valid items are inserted one by one, invalid items are reported and skipped
+ */
+export async function submitLeadsBatch(
+  supabase: SupabaseClient,
+  professionalId: string,
+  requests: LeadSubmissionRequest[],
+  mode: BatchMode,
+  apiKeyId: string | null = null,
+  log: Logger = logger
+): Promise<BatchItemResult[]> {
+  requests = requests.map(request => normalizeLeadRequest(request ?? {} as LeadSubmissionRequest));
+
+  const results: BatchItemResult[] = requests.map((request, index) => {
+    const validation = validateLeadRequest(request);
+    return validation.valid
+      ? { index, success: true }
+      : {
+        index,
+        success: false,
+        errorCode: 'validation_error',
+        error: validation.error,
+        field: validation.field,
+        errors: validation.errors
+      };
+  });
+
+  // Nothing is created if any item is invalid in all-or-nothing mode
+  if (mode === 'all_or_nothing' && results.some(r => !r.success)) {
+    return results.map(r => r.success
+      ? { index: r.index, success: false, errorCode: 'batch_aborted', error: 'Not created because another item in the batch failed' }
+      : r);
+  }
+
+  const validResults = results.filter(r => r.success);
+  if (validResults.length === 0) {
+    return results;
+  }
+
+  // Verify professional exists
+  if (!await professionalExists(supabase, professionalId)) {
+    return results.map(r => ({
+      index: r.index,
+      success: false,
+      errorCode: 'professional_not_found',
+      error: 'Professional not found'
+    }));
+  }
+
+  if (mode === 'all_or_nothing') {
+    // The whole batch must fit in the quota
+    const quota = await reserveLeadQuota(supabase, professionalId, requests.length, log);
+    if (!quota.allowed) {
+      return results.map(r => ({
+        index: r.index,
+        success: false,
+        errorCode: quota.errorCode,
+        error: quota.error,
+        resetAt: quota.resetAt
+      }));
+    }
+
+    const leadRows = await Promise.all(requests.map(request => prepareLeadData(supabase, professionalId, request, apiKeyId, log)));
+
+    const { data: leads, error: insertError } = await supabase
+      .from('leads')
+      .insert(leadRows)
+      .select('id');
+
+    if (insertError || !leads) {
+      log.error('Batch lead insertion error', { batch_size: requests.length, error: insertError });
+      await releaseLeadQuota(supabase, professionalId, requests.length, log);
+      return results.map(r => ({
+        index: r.index,
+        success: false,
+        errorCode: 'database_error',
+        error: 'Failed to create lead'
+      }));
+    }
+
+    return results.map((r, i) => ({
+      index: r.index,
+      success: true,
+      leadId: leads[i].id,
+      clientPhone: leadRows[i].client_phone as string,
+      clientPhoneE164: leadRows[i].client_phone_e164 as string
+    }));
+  }
+
+  for (const result of validResults) {
+    const quota = await reserveLeadQuota(supabase, professionalId, 1, log);
+    if (!quota.allowed) {
+      result.success = false;
+      result.errorCode = quota.errorCode;
+      result.error = quota.error;
+      result.resetAt = quota.resetAt;
+      continue;
+    }
+
+    const leadData = await prepareLeadData(supabase, professionalId, requests[result.index], apiKeyId, log);
+
+    const { data: lead, error: insertError } = await supabase
+      .from('leads')
+      .insert([leadData])
+      .select('id')
+      .single();
+
+    if (insertError) {
+      log.error('Lead insertion error', { batch_index: result.index, error: insertError });
+      await releaseLeadQuota(supabase, professionalId, 1, log);
+      result.success = false;
+      result.errorCode = 'database_error';
+      result.error = 'Failed to create lead';
+    } else {
+      result.leadId = lead.id;
+      result.clientPhone = leadData.client_phone as string;
+      result.clientPhoneE164 = leadData.client_phone_e164 as string;
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,150 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
+import { normalizeIsraeliPhone } from "./phone.ts";
+import { logger, Logger } from "./logger.ts";
+
+export interface RetentionOptions {
+  retentionDays: number;
+  piiRetentionDays: number;
+  archive: boolean;
+  dryRun: boolean;
+  batchSize: number;
+}
+
+export interface RetentionReport {
+  piiScrubbed: number;
+  piiPending: number;
+  expired: number;
+  expiredPending: number;
+}
+
+export interface ErasureReport {
+  matched: number;
+  scrubbed: number;
+  requestIds: string[];
+}
+
+// Defaults, overridable with LOG_RETENTION_DAYS, LOG_PII_RETENTION_DAYS and LOG_ARCHIVE_EXPIRED
+const DEFAULT_LOG_RETENTION_DAYS = 365;
+const DEFAULT_PII_RETENTION_DAYS = 30;
+
+// Rows processed per retention step in a single run
+export const DEFAULT_PURGE_BATCH_SIZE = 10000;
+export const MAX_PURGE_BATCH_SIZE = 100000;
+
+/**
+ * Retention settings from the environment
+ */
+export function getRetentionDefaults(): Omit<RetentionOptions, 'dryRun' | 'batchSize'> {
+  const retentionDays = Number(Deno.env.get('LOG_RETENTION_DAYS'));
+  const piiRetentionDays = Number(Deno.env.get('LOG_PII_RETENTION_DAYS'));
+
+  return {
+    retentionDays: Number.isInteger(retentionDays) && retentionDays > 0 ? retentionDays : DEFAULT_LOG_RETENTION_DAYS,
+    piiRetentionDays: Number.isInteger(piiRetentionDays) && piiRetentionDays > 0 ? piiRetentionDays : DEFAULT_PII_RETENTION_DAYS,
+    archive: Deno.env.get('LOG_ARCHIVE_EXPIRED') === 'true'
+  };
+}
+
+/**
+ * Null PII fields past the PII retention and delete (or archive) rows past the log retention
+ */
+export async function purgeRequestLogs(
+  supabase: SupabaseClient,
+  options: RetentionOptions,
+  log: Logger = logger
+): Promise<RetentionReport | null> {
+  const { data, error } = await supabase.rpc('purge_api_request_logs', {
+    p_retention_days: options.retentionDays,
+    p_pii_retention_days: options.piiRetentionDays,
+    p_archive: options.archive,
+    p_dry_run: options.dryRun,
+    p_batch_size: options.batchSize
+  });
+
+  const row = Array.isArray(data) ? data[0] : data;
+
+  if (error || !row) {
+    log.error('Error purging request logs', { error });
+    return null;
+  }
+
+  return {
+    piiScrubbed: Number(row.pii_scrubbed),
+    piiPending: Number(row.pii_pending),
+    expired: Number(row.expired),
+    expiredPending: Number(row.expired_pending)
+  };
+}
+
+/**
+ * Reduce a phone number to national digits, as stored on leads. Numbers that are not
+ * valid Israeli numbers only lose their separators and +972 / 972 prefix.
+ */
+export function toNationalDigits(phone: string): string {
+  const normalized = normalizeIsraeliPhone(phone);
+  if (normalized) {
+    return normalized.national;
+  }
+
+  const digits = phone.replace(/\D/g, '');
+  return digits.startsWith('972') ? `0${digits.slice(3)}` : digits;
+}
+
+/**
+ * Hash a phone number for the erasure audit trail. Phone numbers are few enough to hash them all,
+ * so the hash is an HMAC keyed with PII_HASH_SECRET. Returns null if the secret is not configured.
+ */
+async function hashPhone(phone: string): Promise<string | null> {
+  const secret = Deno.env.get('PII_HASH_SECRET');
+  if (!secret) {
+    return null;
+  }
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`ofair-erasure:${phone}`));
+  return Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Scrub request and response bodies and IPs from every log row that may contain the client's phone
+ */
+export async function eraseClientPhoneFromLogs(
+  supabase: SupabaseClient,
+  phone: string,
+  dryRun: boolean,
+  log: Logger = logger
+): Promise<ErasureReport | null> {
+  const nationalPhone = toNationalDigits(phone);
+
+  const phoneHash = await hashPhone(nationalPhone);
+  if (!phoneHash) {
+    log.error('PII_HASH_SECRET is not configured, refusing to erase without an audit hash');
+    return null;
+  }
+
+  const { data, error } = await supabase.rpc('erase_client_phone_from_logs', {
+    p_phone: nationalPhone,
+    p_phone_hash: phoneHash,
+    p_dry_run: dryRun
+  });
+
+  const row = Array.isArray(data) ? data[0] : data;
+
+  if (error || !row) {
+    log.error('Error erasing client phone from logs', { error });
+    return null;
+  }
+
+  return {
+    matched: Number(row.matched),
+    scrubbed: Number(row.scrubbed),
+    requestIds: row.request_ids || []
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Structured JSON logging (one JSON object per line)
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogFields {
+  request_id?: string;
+  trace_id?: string | null;
+  api_key_id?: string | null;
+  professional_id?: string | null;
+  endpoint?: string;
+  duration_ms?: number;
+  [key: string]: unknown;
+}
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Minimum level written, overridable with LOG_LEVEL
+const envLevel = Deno.env.get('LOG_LEVEL') as LogLevel | undefined;
+const minLevel = envLevel && envLevel in LEVEL_ORDER ? LEVEL_ORDER[envLevel] : LEVEL_ORDER.info;
+
+/**
+ * Errors don't serialize with JSON.stringify, so they are converted to plain objects
+ */
+function serializeValue(_key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+function write(level: LogLevel, message: string, fields: LogFields): void {
+  if (LEVEL_ORDER[level] < minLevel) return;
+
+  const line = JSON.stringify({ timestamp: new Date().toISOString(), level, message, ...fields }, serializeValue);
+
+  if (level === 'error') {
+    console.error(line);
+  } else if (level === 'warn') {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+/**
+ * Create a logger whose lines carry the given fields. Bindings may be a function,
+ * so fields that are filled in later (e.g. after authentication) are picked up.
+ */
+export function createLogger(bindings: LogFields | (() => LogFields) = {}): Logger {
+  const resolve = typeof bindings === 'function' ? bindings : () => bindings;
+  const log = (level: LogLevel) => (message: string, fields: LogFields = {}) =>
+    write(level, message, { ...resolve(), ...fields });
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error')
+  };
+}
+
+// Logger without request fields, for code running outside a request
+export const logger = createLogger();
@@ -0,0 +1,63 @@
+import { assert, assertEquals } from "https://deno.land/std@0.177.0/testing/asserts.ts";
+import { getMessage, localizeErrorBody, SUPPORTED_LANGUAGES, DEFAULT_LANGUAGE } from "./messages.ts";
+
+const FUNCTIONS_DIR = new URL('../', import.meta.url);
+
+// Where error codes appear in the code: errorResult(status, 'code', ...), errorCode: 'code'
+// and errorCode = 'code' in results, and error: 'code' in hand-built error bodies
+const ERROR_CODE_PATTERNS = [
+  /errorResult\(\s*[^,()]+,\s*'([a-z_]+)'/g,
+  /errorCode(?::|\s*=)\s*'([a-z_]+)'/g,
+  /\berror: '([a-z_]+)'/g
+];
+
+/**
+ * Every error code used by the edge functions and the shared modules
+ */
+async function findErrorCodes(): Promise<Set<string>> {
+  const codes = new Set<string>();
+
+  for await (const dir of Deno.readDir(FUNCTIONS_DIR)) {
+    if (!dir.isDirectory) continue;
+    for await (const file of Deno.readDir(new URL(`${dir.name}/`, FUNCTIONS_DIR))) {
+      if (!file.name.endsWith('.ts') || file.name.endsWith('.test.ts')) continue;
+
+      const source = await Deno.readTextFile(new URL(`${dir.name}/${file.name}`, FUNCTIONS_DIR));
+      for (const pattern of ERROR_CODE_PATTERNS) {
+        for (const match of source.matchAll(pattern)) {
+          codes.add(match[1]);
+        }
+      }
+    }
+  }
+
+  return codes;
+}
+
+Deno.test('every error code used by the endpoints has a translation', async () => {
+  const codes = await findErrorCodes();
+  // Sanity check that the patterns still find the codes
+  assert(codes.has('invalid_api_key') && codes.has('quota_exceeded') && codes.has('missing_token'), [...codes].join(', '));
+
+  for (const language of SUPPORTED_LANGUAGES.filter(language => language !== DEFAULT_LANGUAGE)) {
+    const missing = [...codes].filter(code => getMessage(code, language) === null).sort();
+    assertEquals(missing, [], `${language} messages missing`);
+  }
+});
+
+Deno.test('localizeErrorBody fills placeholders from the error body', () => {
+  const body = { error: 'insufficient_scope', message: 'API key is missing the required scope: leads:read', required_scope: 'leads:read' };
+
+  assertEquals(localizeErrorBody(body, 'he').message, 'למפתח ה-API חסרה ההרשאה הנדרשת: leads:read');
+  assertEquals(localizeErrorBody(body, 'en'), body);
+});
+
+Deno.test('placeholders join list fields with commas', () => {
+  const body = {
+    error: 'redacted_fields_required',
+    message: 'Redacted in the log, provide in overrides: client_phone, client_name',
+    fields: ['client_phone', 'client_name']
+  };
+
+  assertEquals(localizeErrorBody(body, 'he').message, 'שדות שהוסתרו ברישום חייבים להופיע ב-overrides: client_phone, client_name');
+});
@@ -0,0 +1,217 @@
+import { VALID_TIMEFRAMES, WORK_TIMEFRAME_ALIASES } from "./leadSubmission.ts";
+
+/**
+ * Error messages in the caller's language.
+ *
+ * The code produces English messages. Responses to callers asking for another language
+ * have their messages replaced from the catalog below, keyed by error code. Codes without
+ * a translation keep the English message. Logs always keep the English message.
+ */
+
+export const SUPPORTED_LANGUAGES = ['en', 'he'] as const;
+
+export type Language = typeof SUPPORTED_LANGUAGES[number];
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+const TIMEFRAME_VALUES = `${VALID_TIMEFRAMES.join(', ')} (או ${Object.keys(WORK_TIMEFRAME_ALIASES).join(', ')})`;
+
+/**
+ * Translations keyed by error code. Lead validation errors are keyed by field,
+ * optionally followed by the validation error code: validation.<field>[.<code>]
+ *
+ * {name} is replaced with the response body field of that name (lists are joined with commas).
+ */
+const MESSAGES: Partial<Record<Language, Record<string, string>>> = {
+  he: {
+    // API key validation
+    missing_api_key: 'נדרש מפתח API בכותרת X-API-Key',
+    invalid_api_key_format: 'פורמט מפתח ה-API אינו תקין',
+    invalid_api_key: 'מפתח ה-API אינו תקין',
+    inactive_api_key: 'מפתח ה-API אינו פעיל',
+    revoked_api_key: 'מפתח ה-API בוטל',
+    expired_api_key: 'תוקף מפתח ה-API פג',
+    ip_not_allowed: 'בקשות מכתובת IP זו אינן מורשות עבור מפתח ה-API',
+    insufficient_scope: 'למפתח ה-API חסרה ההרשאה הנדרשת: {required_scope}',
+
+    // API key management
+    api_key_not_found: 'מפתח ה-API לא נמצא',
+    api_key_inactive: 'מפתח ה-API אינו פעיל',
+    api_key_expired: 'תוקף מפתח ה-API פג ולכן לא ניתן להחליף אותו. יש ליצור מפתח חדש.',
+    api_key_already_rotated: 'מפתח ה-API כבר הוחלף במפתח חדש',
+    forbidden: 'אין לך הרשאה לבצע פעולה זו על מפתח ה-API',
+    key_limit_reached: 'הגעת למספר המרבי של מפתחות API פעילים. יש לבטל מפתח קיים תחילה.',
+    duplicate_key_name: 'כבר קיים מפתח API פעיל בשם זה',
+
+    // Token authentication
+    missing_token: 'נדרש אסימון הרשאה',
+    invalid_token: 'אסימון ההרשאה אינו תקין או שפג תוקפו',
+    expired_token: 'תוקף אסימון ההרשאה פג',
+    unauthorized: 'נדרש מפתח service role',
+
+    // Rate limits
+    rate_limit_exceeded: 'חריגה ממגבלת הבקשות. יש להמתין לפני שליחת בקשות נוספות.',
+    ip_locked_out: 'נשלחו יותר מדי ניסיונות שגויים של מפתח API מכתובת IP זו. יש להמתין לפני ניסיון נוסף.',
+
+    // Request handling
+    method_not_allowed: 'שיטת הבקשה אינה נתמכת בנקודת קצה זו',
+    invalid_json: 'גוף הבקשה חייב להיות אובייקט JSON תקין',
+    validation_error: 'הבקשה אינה תקינה: {message}',
+    invalid_cursor: 'סמן הדפדוף אינו תקין',
+    database_error: 'אירעה שגיאה בגישה למסד הנתונים',
+    internal_error: 'אירעה שגיאה בלתי צפויה',
+
+    // Idempotency
+    invalid_idempotency_key: 'Idempotency-Key חייב להכיל 1-255 תווי ASCII מודפסים',
+    idempotency_key_mismatch: 'Idempotency-Key כבר שימש לבקשה עם גוף שונה',
+    idempotency_key_in_progress: 'בקשה עם Idempotency-Key זה עדיין בטיפול',
+
+    // Lead submission
+    professional_not_found: 'בעל המקצוע לא נמצא',
+    quota_exceeded: 'הגעת למכסת הלידים. המכסה מתאפסת ב-{reset_at}',
+    invalid_batch: 'ערך לא תקין בשדה {field} של האצווה',
+    batch_aborted: 'הליד לא נוצר כי פריט אחר באצווה נכשל',
+
+    // Leads and webhooks
+    lead_not_found: 'הליד לא נמצא',
+    webhook_not_found: 'נקודת הקצה של ה-webhook לא נמצאה',
+    webhook_limit_reached: 'הגעת למספר המרבי של נקודות קצה ל-webhook. יש להסיר נקודת קצה קיימת תחילה.',
+
+    // Request logs and replays
+    request_log_not_found: 'רישום הבקשה לא נמצא',
+    request_not_replayable: 'ניתן לשלוח מחדש רק בקשות שנכשלו ונשלחו עם מפתח API',
+    redacted_fields_required: 'שדות שהוסתרו ברישום חייבים להופיע ב-overrides: {fields}',
+    request_already_replayed: 'הבקשה כבר נשלחה מחדש',
+    replay_in_progress: 'שליחה חוזרת של בקשה זו עדיין בטיפול',
+
+    // Lead validation
+    'validation.description': 'התיאור חייב להכיל לפחות 10 תווים',
+    'validation.location': 'יש לציין מיקום (עיר)',
+    'validation.profession': 'יש לציין לפחות מקצוע אחד',
+    'validation.profession.too_many_items': 'ניתן לציין עד 5 מקצועות',
+    'validation.client_name': 'יש לציין את שם הלקוח',
+    'validation.client_phone': 'מספר הטלפון של הלקוח חייב להיות מספר נייד או קווי ישראלי תקין (לדוגמה 0501234567 או +972-50-123-4567)',
+    'validation.budget': 'התקציב חייב להיות מספר חיובי',
+    'validation.includes_vat': 'includes_vat חייב להיות true או false',
+    'validation.share_percentage': 'אחוז העמלה חייב להיות בין 5 ל-40',
+    'validation.work_date': 'תאריך העבודה חייב להיות בפורמט YYYY-MM-DD',
+    'validation.work_time': 'שעת העבודה חייבת להיות בפורמט HH:MM',
+    'validation.work_timeframe': `מועד העבודה חייב להיות אחד מ: ${TIMEFRAME_VALUES}`,
+    'validation.constraints': 'constraints חייב להיות מחרוזת',
+    'validation.media_urls': 'media_urls חייב להיות מערך של מחרוזות',
+    'validation.latitude': 'latitude חייב להיות מספר',
+    'validation.longitude': 'longitude חייב להיות מספר'
+  }
+};
+
+/**
+ * Map a language tag (he, he-IL, en-US, ...) to a supported language
+ */
+function matchLanguage(tag: string): Language | null {
+  const primary = tag.trim().toLowerCase().split('-')[0];
+  // iw is the legacy code for Hebrew, still sent by some clients
+  if (primary === 'iw') {
+    return 'he';
+  }
+  return (SUPPORTED_LANGUAGES as readonly string[]).includes(primary) ? primary as Language : null;
+}
+
+/**
+ * Pick the response language: the lang query parameter, else the preferred supported
+ * language in Accept-Language, else English
+ */
+export function resolveLanguage(req: Request): Language {
+  const param = new URL(req.url).searchParams.get('lang');
+  const fromParam = param ? matchLanguage(param) : null;
+  if (fromParam) {
+    return fromParam;
+  }
+
+  const header = req.headers.get('accept-language');
+  if (!header) {
+    return DEFAULT_LANGUAGE;
+  }
+
+  // e.g. "he-IL,he;q=0.9,en-US;q=0.8,en;q=0.7"
+  const ranges = header.split(',')
+    .map(range => {
+      const [tag, ...params] = range.split(';');
+      const quality = params.map(p => p.trim()).find(p => p.startsWith('q='));
+      return { tag, q: quality ? parseFloat(quality.slice(2)) : 1 };
+    })
+    .filter(range => range.q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const range of ranges) {
+    const language = matchLanguage(range.tag);
+    if (language) {
+      return language;
+    }
+  }
+
+  return DEFAULT_LANGUAGE;
+}
+
+/**
+ * Look up a message by key, filling {name} placeholders from params.
+ * Returns null when there is no translation.
+ */
+export function getMessage(
+  key: string,
+  language: Language,
+  params: Record<string, unknown> = {}
+): string | null {
+  const message = MESSAGES[language]?.[key];
+  if (message === undefined) {
+    return null;
+  }
+
+  return message.replace(/\{(\w+)\}/g, (placeholder: string, name: string) => {
+    const value = params[name];
+    if (value === undefined || value === null) return placeholder;
+    return Array.isArray(value) ? value.join(', ') : String(value);
+  });
+}
+
+/**
+ * Translate the messages of an error response body: the top-level message, each entry
+ * of errors (lead validation) and each failed item of results (batch submission).
+ * Bodies without an error code, and English responses, are returned unchanged.
+ */
+export function localizeErrorBody<T extends Record<string, unknown>>(body: T, language: Language): T {
+  if (language === DEFAULT_LANGUAGE) {
+    return body;
+  }
+
+  const localized: Record<string, unknown> = { ...body };
+
+  if (Array.isArray(body.results)) {
+    localized.results = body.results.map(item => localizeErrorBody(item as Record<string, unknown>, language));
+  }
+
+  if (typeof body.error !== 'string') {
+    return localized as T;
+  }
+
+  if (Array.isArray(body.errors)) {
+    const errors = (body.errors as { field: string; code: string; message: string }[]).map(error => ({
+      ...error,
+      message: getMessage(`validation.${error.field}.${error.code}`, language)
+        ?? getMessage(`validation.${error.field}`, language)
+        ?? error.message
+    }));
+    localized.errors = errors;
+    // The top-level message repeats the first validation error
+    if (errors.length > 0) {
+      localized.message = errors[0].message;
+    }
+    return localized as T;
+  }
+
+  const message = getMessage(body.error, language, body);
+  if (message !== null) {
+    localized.message = message;
+  }
+
+  return localized as T;
+}
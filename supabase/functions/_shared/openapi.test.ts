@@ -0,0 +1,145 @@
+import { assert, assertEquals } from "https://deno.land/std@0.177.0/testing/asserts.ts";
+import { buildOpenApiDocument, getLeadSubmissionSchema } from "./openapi.ts";
+import {
+  LEAD_FIELD_RULES,
+  LeadSubmissionRequest,
+  normalizeLeadRequest,
+  validateLeadRequest,
+  VALIDATION_ERROR_CODES
+} from "./leadSubmission.ts";
+
+type Schema = Record<string, unknown>;
+
+/**
+ * JSON Schema check for the keywords the lead schema uses
+ */
+function matchesSchema(value: unknown, schema: Schema): boolean {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return false;
+      if (schema.minLength !== undefined && [...value].length < (schema.minLength as number)) return false;
+      if (schema.pattern !== undefined && !new RegExp(schema.pattern as string, 'u').test(value)) return false;
+      return schema.enum === undefined || (schema.enum as string[]).includes(value);
+
+    case 'number':
+      if (typeof value !== 'number') return false;
+      if (schema.exclusiveMinimum !== undefined && value <= (schema.exclusiveMinimum as number)) return false;
+      if (schema.minimum !== undefined && value < (schema.minimum as number)) return false;
+      return schema.maximum === undefined || value <= (schema.maximum as number);
+
+    case 'boolean':
+      return typeof value === 'boolean';
+
+    case 'array':
+      if (!Array.isArray(value) || !value.every(item => matchesSchema(item, schema.items as Schema))) return false;
+      if (schema.minItems !== undefined && value.length < (schema.minItems as number)) return false;
+      return schema.maxItems === undefined || value.length <= (schema.maxItems as number);
+  }
+  throw new Error(`Unexpected schema type ${schema.type}`);
+}
+
+/**
+ * Whether the API accepts the value for the field (normalized and validated like submitLead)
+ */
+function apiAccepts(field: string, value: unknown): boolean {
+  const lead = { ...validLead(), [field]: value } as unknown as LeadSubmissionRequest;
+  return !validateLeadRequest(normalizeLeadRequest(lead)).errors.some(error => error.field === field);
+}
+
+function validLead(): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(LEAD_FIELD_RULES)
+      .filter(([, rule]) => rule.required)
+      .map(([field, rule]) => [field, rule.example])
+  );
+}
+
+/**
+ * Values around every limit in the schema, plus values of the wrong type
+ */
+function candidateValues(schema: Schema): unknown[] {
+  const values: unknown[] = ['x', 'ab', 'שלום עולם', 'a'.repeat(10), 'a'.repeat(9), '2025-01-20', '20-01-2025', '09:00', '9:00',
+    -1, 0, 0.5, 1, 4.99, 5, 10, 40, 40.01, 15000, true, false, 'true', [], ['a'], [1], ['a', 'b', 'c', 'd', 'e'],
+    ['a', 'b', 'c', 'd', 'e', 'f'], { a: 1 }];
+
+  for (const key of ['minLength', 'minimum', 'maximum', 'exclusiveMinimum', 'minItems', 'maxItems']) {
+    const limit = schema[key] as number | undefined;
+    if (limit === undefined) continue;
+    if (schema.type === 'string') values.push('א'.repeat(limit - 1), 'א'.repeat(limit));
+    if (schema.type === 'array') values.push(Array(Math.max(0, limit - 1)).fill('a'), Array(limit).fill('a'), Array(limit + 1).fill('a'));
+    if (schema.type === 'number') values.push(limit - 0.01, limit, limit + 0.01);
+  }
+  if (schema.enum) values.push(...(schema.enum as string[]), 'something else');
+  if (schema.examples) values.push(...(schema.examples as unknown[]));
+
+  return values;
+}
+
+Deno.test('the lead schema lists every field and its required fields', () => {
+  const schema = getLeadSubmissionSchema();
+  const properties = schema.properties as Record<string, Schema>;
+
+  assertEquals(Object.keys(properties), Object.keys(LEAD_FIELD_RULES));
+  assertEquals(
+    schema.required,
+    Object.entries(LEAD_FIELD_RULES).filter(([, rule]) => rule.required).map(([field]) => field)
+  );
+
+  // A lead with only the required fields, set to their examples, is valid
+  assert(validateLeadRequest(normalizeLeadRequest(validLead() as unknown as LeadSubmissionRequest)).valid);
+});
+
+Deno.test('the lead schema and the validator agree on every field', () => {
+  const properties = getLeadSubmissionSchema().properties as Record<string, Schema>;
+
+  for (const [field, rule] of Object.entries(LEAD_FIELD_RULES)) {
+    const schema = properties[field];
+    assertEquals(schema.type, rule.type, field);
+
+    for (const value of candidateValues(schema)) {
+      const label = `${field} = ${JSON.stringify(value)}`;
+      if (rule.normalize) {
+        // The input is normalized before validation (e.g. phone numbers), so the schema
+        // is looser than the validator; it must never reject a value the API accepts
+        if (apiAccepts(field, value)) {
+          assert(matchesSchema(value, schema), label);
+        }
+      } else {
+        assertEquals(matchesSchema(value, schema), apiAccepts(field, value), label);
+      }
+    }
+  }
+});
+
+Deno.test('the validator trims before measuring, as the schema describes', () => {
+  const properties = getLeadSubmissionSchema().properties as Record<string, Schema>;
+
+  for (const [field, rule] of Object.entries(LEAD_FIELD_RULES)) {
+    if (rule.minLength === undefined) continue;
+    const padded = `  ${'א'.repeat(rule.minLength - 1)}  `;
+
+    assert(matchesSchema(padded, properties[field]), field);
+    assert(!apiAccepts(field, padded), field);
+    assert((properties[field].description as string).includes('excluding surrounding whitespace'), field);
+  }
+});
+
+Deno.test('every error response uses the one Error envelope', () => {
+  const document = buildOpenApiDocument('https://example.supabase.co/functions/v1');
+  const paths = document.paths as Record<string, Record<string, { responses: Record<string, Schema> }>>;
+  const schemas = (document.components as { schemas: Record<string, Schema> }).schemas;
+
+  assertEquals(schemas.Error.required, ['error', 'message', 'request_id']);
+  assertEquals(((schemas.ValidationError.properties as Record<string, Schema>).code).enum, VALIDATION_ERROR_CODES);
+
+  for (const [path, operations] of Object.entries(paths)) {
+    for (const [method, operation] of Object.entries(operations)) {
+      for (const [status, response] of Object.entries(operation.responses)) {
+        // Batch validation failures (400) return per-item results rather than one error
+        if (Number(status) < 400 || (path === '/submit-leads-batch' && status === '400')) continue;
+        const content = response.content as Record<string, { schema: Schema }>;
+        assertEquals(content['application/json'].schema, { $ref: '#/components/schemas/Error' }, `${method} ${path} ${status}`);
+      }
+    }
+  }
+});
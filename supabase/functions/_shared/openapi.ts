@@ -0,0 +1,557 @@
+import {
+  LEAD_FIELD_RULES,
+  LeadFieldRule,
+  MAX_BATCH_SIZE,
+  VALIDATION_ERROR_CODES
+} from "./leadSubmission.ts";
+import {
+  API_KEY_SCOPES,
+  SCOPE_LEADS_WRITE,
+  SCOPE_LEADS_READ,
+  SCOPE_WEBHOOKS_MANAGE,
+  SCOPE_USAGE_READ
+} from "./apiKeyAuth.ts";
+import { MAX_ALLOWED_CIDRS } from "./ipAllowlist.ts";
+import { DEFAULT_LEAD_PAGE_SIZE, MAX_LEAD_PAGE_SIZE } from "./leadLookup.ts";
+import { DEFAULT_LOG_PAGE_SIZE, MAX_LOG_PAGE_SIZE } from "./requestLogSearch.ts";
+import { USAGE_GRANULARITIES } from "./usageAnalytics.ts";
+import { WEBHOOK_EVENT_TYPES } from "./webhooks.ts";
+
+/**
+ * OpenAPI 3.1 description of the edge functions
+ */
+
+type Schema = Record<string, unknown>;
+
+/**
+ * JSON Schema for one lead field, from the same rule validateLeadRequest applies
+ */
+function leadFieldSchema(rule: LeadFieldRule): Schema {
+  const schema: Schema = { type: rule.type, description: rule.description };
+
+  if (rule.minLength !== undefined) {
+    // The validator trims before measuring, which JSON Schema can't express
+    schema.minLength = rule.minLength;
+    schema.description = `${rule.description} (at least ${rule.minLength} characters, excluding surrounding whitespace)`;
+  }
+  // A normalized value is checked after normalizing, so the pattern doesn't apply to the input
+  if (rule.pattern && !rule.normalize) schema.pattern = rule.pattern.source;
+  if (rule.enum) schema.enum = rule.aliases ? [...rule.enum, ...Object.keys(rule.aliases)] : rule.enum;
+  if (rule.exclusiveMinimum !== undefined) schema.exclusiveMinimum = rule.exclusiveMinimum;
+  if (rule.minimum !== undefined) schema.minimum = rule.minimum;
+  if (rule.maximum !== undefined) schema.maximum = rule.maximum;
+  if (rule.type === 'array') schema.items = { type: 'string' };
+  if (rule.minItems !== undefined) schema.minItems = rule.minItems;
+  if (rule.maxItems !== undefined) schema.maxItems = rule.maxItems;
+  if (rule.example !== undefined) schema.examples = [rule.example];
+
+  return schema;
+}
+
+/**
+ * LeadSubmissionRequest schema, generated from LEAD_FIELD_RULES
+ */
+export function getLeadSubmissionSchema(): Schema {
+  const entries = Object.entries(LEAD_FIELD_RULES);
+
+  return {
+    type: 'object',
+    required: entries.filter(([, rule]) => rule.required).map(([field]) => field),
+    properties: Object.fromEntries(entries.map(([field, rule]) => [field, leadFieldSchema(rule)]))
+  };
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const json = (schema: Schema, description: string) => ({
+  description,
+  content: { 'application/json': { schema } }
+});
+
+const errorResponse = (description: string) => json(ref('Error'), description);
+
+const queryParam = (name: string, schema: Schema, description: string, required = false) => ({
+  name,
+  in: 'query',
+  required,
+  schema,
+  description
+});
+
+const pageParams = (defaultSize: number, maxSize: number) => [
+  queryParam('limit', { type: 'integer', minimum: 1, maximum: maxSize, default: defaultSize }, 'Page size'),
+  queryParam('cursor', { type: 'string' }, 'next_cursor from the previous page')
+];
+
+// Responses every API key endpoint can return before reaching its own logic
+const API_KEY_ERRORS = {
+  '401': errorResponse('Missing, invalid, expired or revoked API key'),
+  '403': errorResponse('Insufficient scope or client IP not allowed'),
+  '429': errorResponse('Rate limit exceeded or API key locked out from the client IP')
+};
+
+// Client phone of a created lead, as stored
+const STORED_PHONE = {
+  client_phone: { type: 'string', description: 'National format, digits only (e.g. 0501234567)' },
+  client_phone_e164: { type: 'string', description: 'E.164 format (e.g. +972501234567)' }
+};
+
+const TOKEN_ERRORS = {
+  '401': errorResponse('Missing, invalid or expired app token')
+};
+
+const SERVICE_ROLE_ERRORS = {
+  '401': errorResponse('Service role key required')
+};
+
+const apiKeyOperation = (scope: string, operation: Schema) => ({
+  security: [{ apiKey: [] }],
+  'x-required-scope': scope,
+  ...operation,
+  responses: { ...(operation.responses as Schema), ...API_KEY_ERRORS }
+});
+
+const tokenOperation = (operation: Schema) => ({
+  security: [{ appToken: [] }],
+  ...operation,
+  responses: { ...(operation.responses as Schema), ...TOKEN_ERRORS }
+});
+
+const serviceRoleOperation = (operation: Schema) => ({
+  security: [{ serviceRole: [] }],
+  tags: ['Scheduled jobs'],
+  ...operation,
+  responses: { ...(operation.responses as Schema), ...SERVICE_ROLE_ERRORS }
+});
+
+const successObject = (properties: Schema) => ({
+  type: 'object',
+  properties: { success: { type: 'boolean', const: true }, ...properties, request_id: { type: 'string', format: 'uuid' } }
+});
+
+const KEY_ID_BODY = {
+  type: 'object',
+  required: ['key_id'],
+  properties: { key_id: { type: 'string', format: 'uuid' } }
+};
+
+/**
+ * Build the OpenAPI document. Server URL comes from SUPABASE_URL.
+ */
+export function buildOpenApiDocument(serverUrl: string): Schema {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Ofair Lead Submission API',
+      version: '1.0.0',
+      description: 'Submit and look up leads on the Ofair platform, and manage API keys and webhooks. ' +
+        'Error messages of API key endpoints are in Hebrew with Accept-Language: he or the lang=he query parameter.'
+    },
+    servers: [{ url: serverUrl }],
+    tags: [
+      { name: 'Leads' },
+      { name: 'Webhooks' },
+      { name: 'Usage' },
+      { name: 'API keys', description: 'Authenticated with the Ofair Pro app session token' },
+      { name: 'Scheduled jobs', description: 'Called by the scheduler with the service role key' }
+    ],
+    paths: {
+      '/submit-lead-api': {
+        post: apiKeyOperation(SCOPE_LEADS_WRITE, {
+          tags: ['Leads'],
+          summary: 'Submit a lead',
+          parameters: [{
+            name: 'Idempotency-Key',
+            in: 'header',
+            schema: { type: 'string', minLength: 1, maxLength: 255 },
+            description: 'Retries with the same key return the original lead instead of creating a duplicate'
+          }],
+          requestBody: { required: true, content: { 'application/json': { schema: ref('LeadSubmissionRequest') } } },
+          responses: {
+            '201': json(successObject({
+              lead_id: { type: 'string', format: 'uuid' },
+              ...STORED_PHONE,
+              replayed: { type: 'boolean' }
+            }), 'Lead created (or idempotent replay of the original response)'),
+            '400': errorResponse('Validation error or invalid JSON'),
+            '409': errorResponse('A request with this Idempotency-Key is still being processed'),
+            '422': errorResponse('Idempotency-Key reused with a different body')
+          }
+        })
+      },
+      '/submit-leads-batch': {
+        post: apiKeyOperation(SCOPE_LEADS_WRITE, {
+          tags: ['Leads'],
+          summary: 'Submit a batch of leads',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['leads'],
+                  properties: {
+                    leads: { type: 'array', items: ref('LeadSubmissionRequest'), minItems: 1, maxItems: MAX_BATCH_SIZE },
+                    mode: { type: 'string', enum: ['all_or_nothing', 'best_effort'], default: 'best_effort' }
+                  }
+                }
+              }
+            }
+          },
+          responses: {
+            '201': json(ref('BatchResponse'), 'Every lead created'),
+            '207': json(ref('BatchResponse'), 'Some leads created (best_effort)'),
+            '400': json({ oneOf: [ref('BatchResponse'), ref('Error')] }, 'No lead created, or the batch itself is invalid')
+          }
+        })
+      },
+      '/get-lead': {
+        get: apiKeyOperation(SCOPE_LEADS_READ, {
+          tags: ['Leads'],
+          summary: 'Get a submitted lead',
+          parameters: [queryParam('lead_id', { type: 'string', format: 'uuid' }, 'Lead ID', true)],
+          responses: {
+            '200': json(successObject({ lead: ref('Lead') }), 'The lead'),
+            '400': errorResponse('Invalid lead_id'),
+            '404': errorResponse('Lead not found')
+          }
+        })
+      },
+      '/list-leads': {
+        get: apiKeyOperation(SCOPE_LEADS_READ, {
+          tags: ['Leads'],
+          summary: 'List submitted leads, newest first',
+          parameters: [
+            queryParam('status', { type: 'string' }, 'Lead status'),
+            queryParam('created_from', { type: 'string', format: 'date-time' }, 'Created at or after'),
+            queryParam('created_to', { type: 'string', format: 'date-time' }, 'Created at or before'),
+            queryParam('profession', { type: 'string' }, 'Leads including this profession'),
+            queryParam('submitted_by', { type: 'string', enum: ['professional', 'key'], default: 'professional' }, 'All API leads of the account, or only this key\'s'),
+            ...pageParams(DEFAULT_LEAD_PAGE_SIZE, MAX_LEAD_PAGE_SIZE)
+          ],
+          responses: {
+            '200': json(successObject({
+              leads: { type: 'array', items: ref('Lead') },
+              next_cursor: { type: ['string', 'null'] }
+            }), 'A page of leads'),
+            '400': errorResponse('Invalid filter or cursor')
+          }
+        })
+      },
+      '/manage-webhooks': {
+        get: apiKeyOperation(SCOPE_WEBHOOKS_MANAGE, {
+          tags: ['Webhooks'],
+          summary: 'List webhook endpoints',
+          responses: { '200': json(successObject({ endpoints: { type: 'array', items: ref('WebhookEndpoint') } }), 'Webhook endpoints') }
+        }),
+        post: apiKeyOperation(SCOPE_WEBHOOKS_MANAGE, {
+          tags: ['Webhooks'],
+          summary: 'Register a webhook endpoint',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['url'],
+                  properties: {
+                    url: { type: 'string', format: 'uri', description: 'Public HTTPS URL' },
+                    event_types: { type: 'array', items: { type: 'string', enum: WEBHOOK_EVENT_TYPES } },
+                    description: { type: 'string', maxLength: 255 }
+                  }
+                }
+              }
+            }
+          },
+          responses: {
+            '201': json(successObject({ endpoint: ref('WebhookEndpoint'), secret: { type: 'string' }, message: { type: 'string' } }), 'Endpoint registered; the signing secret is only shown once'),
+            '400': errorResponse('Validation error or endpoint limit reached')
+          }
+        }),
+        delete: apiKeyOperation(SCOPE_WEBHOOKS_MANAGE, {
+          tags: ['Webhooks'],
+          summary: 'Remove a webhook endpoint',
+          parameters: [queryParam('endpoint_id', { type: 'string', format: 'uuid' }, 'Endpoint ID', true)],
+          responses: {
+            '200': json(successObject({}), 'Endpoint removed'),
+            '404': errorResponse('Endpoint not found')
+          }
+        })
+      },
+      '/get-usage': {
+        get: apiKeyOperation(SCOPE_USAGE_READ, {
+          tags: ['Usage'],
+          summary: 'Rate limit and lead quota consumption for the calling key',
+          responses: { '200': json(successObject({ rate_limits: { type: 'object' }, lead_quota: { type: 'object' } }), 'Current usage') }
+        })
+      },
+      '/create-api-key': {
+        post: tokenOperation({
+          tags: ['API keys'],
+          summary: 'Create an API key',
+          requestBody: {
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    name: { type: 'string' },
+                    scopes: { type: 'array', items: { type: 'string', enum: API_KEY_SCOPES }, minItems: 1 },
+                    expires_in_days: { type: 'integer', minimum: 1 },
+                    expires_at: { type: 'string', format: 'date-time' },
+                    allowed_cidrs: { type: 'array', items: { type: 'string' }, maxItems: MAX_ALLOWED_CIDRS }
+                  }
+                }
+              }
+            }
+          },
+          responses: {
+            '201': json(successObject({ api_key: { type: 'string' }, key_id: { type: 'string', format: 'uuid' } }), 'Key created; the full key is only shown once'),
+            '400': errorResponse('Validation error or key limit reached')
+          }
+        })
+      },
+      '/list-api-keys': {
+        get: tokenOperation({
+          tags: ['API keys'],
+          summary: 'List API keys',
+          parameters: [queryParam('expiring_soon', { type: 'boolean' }, 'Only active keys expiring soon')],
+          responses: { '200': json(successObject({ keys: { type: 'array', items: { type: 'object' } } }), 'API keys') }
+        })
+      },
+      '/lookup-api-key': {
+        post: tokenOperation({
+          tags: ['API keys'],
+          summary: 'Identify a full API key value',
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: { type: 'object', required: ['api_key'], properties: { api_key: { type: 'string' } } } } }
+          },
+          responses: { '200': json(successObject({ key: { type: 'object' } }), 'The key'), '404': errorResponse('Key not found') }
+        })
+      },
+      '/update-api-key': {
+        post: tokenOperation({
+          tags: ['API keys'],
+          summary: 'Update an API key\'s IP allowlist',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['key_id', 'allowed_cidrs'],
+                  properties: {
+                    key_id: { type: 'string', format: 'uuid' },
+                    allowed_cidrs: { type: 'array', items: { type: 'string' }, maxItems: MAX_ALLOWED_CIDRS }
+                  }
+                }
+              }
+            }
+          },
+          responses: { '200': json(successObject({}), 'Allowlist updated'), '400': errorResponse('Validation error'), '404': errorResponse('Key not found') }
+        })
+      },
+      '/rotate-api-key': {
+        post: tokenOperation({
+          tags: ['API keys'],
+          summary: 'Rotate an API key, keeping the old one valid for a grace period',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['key_id'],
+                  properties: {
+                    key_id: { type: 'string', format: 'uuid' },
+                    grace_period_hours: { type: 'integer', minimum: 0 },
+                    expires_in_days: { type: 'integer', minimum: 1 },
+                    expires_at: { type: 'string', format: 'date-time' }
+                  }
+                }
+              }
+            }
+          },
+          responses: {
+            '201': json(successObject({ api_key: { type: 'string' }, expires_at: { type: ['string', 'null'], format: 'date-time' } }), 'New key created'),
+            '400': errorResponse('Validation error'),
+            '404': errorResponse('Key not found'),
+            '409': errorResponse('Key already rotated')
+          }
+        })
+      },
+      '/revoke-api-key': {
+        post: tokenOperation({
+          tags: ['API keys'],
+          summary: 'Revoke an API key',
+          requestBody: { required: true, content: { 'application/json': { schema: KEY_ID_BODY } } },
+          responses: { '200': json(successObject({ message: { type: 'string' } }), 'Key revoked'), '400': errorResponse('Validation error or key already inactive'), '404': errorResponse('Key not found') }
+        })
+      },
+      '/usage-analytics': {
+        get: tokenOperation({
+          tags: ['Usage'],
+          summary: 'Per-key usage analytics',
+          parameters: [
+            queryParam('granularity', { type: 'string', enum: USAGE_GRANULARITIES, default: 'hour' }, 'Bucket size'),
+            queryParam('from', { type: 'string', format: 'date-time' }, 'Range start'),
+            queryParam('to', { type: 'string', format: 'date-time' }, 'Range end'),
+            queryParam('key_id', { type: 'string', format: 'uuid' }, 'Only this key')
+          ],
+          responses: { '200': json(successObject({ keys: { type: 'array', items: { type: 'object' } } }), 'Usage by key'), '400': errorResponse('Invalid range') }
+        })
+      },
+      '/request-logs': {
+        get: tokenOperation({
+          tags: ['Usage'],
+          summary: 'Search request logs',
+          parameters: [
+            queryParam('request_id', { type: 'string', format: 'uuid' }, 'A single request'),
+            queryParam('error_code', { type: 'string' }, 'Requests that failed with this code'),
+            queryParam('status', { type: 'integer' }, 'HTTP status'),
+            queryParam('from', { type: 'string', format: 'date-time' }, 'Logged at or after'),
+            queryParam('to', { type: 'string', format: 'date-time' }, 'Logged at or before'),
+            ...pageParams(DEFAULT_LOG_PAGE_SIZE, MAX_LOG_PAGE_SIZE)
+          ],
+          responses: { '200': json(successObject({ logs: { type: 'array', items: { type: 'object' } }, next_cursor: { type: ['string', 'null'] } }), 'A page of logs') }
+        }),
+        post: tokenOperation({
+          tags: ['Usage'],
+          summary: 'Replay a failed lead submission',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['request_id'],
+                  properties: { request_id: { type: 'string', format: 'uuid' }, overrides: { type: 'object' } }
+                }
+              }
+            }
+          },
+          responses: {
+            '201': json(successObject({
+              lead_id: { type: 'string', format: 'uuid' },
+              ...STORED_PHONE,
+              replay_of_request_id: { type: 'string', format: 'uuid' }
+            }), 'Lead created'),
+            '400': errorResponse('Not replayable, redacted fields missing from overrides, or validation error'),
+            '403': errorResponse('The original API key lacks leads:write, does not allow this client IP, or the lead quota is exhausted'),
+            '404': errorResponse('Log not found'),
+            '409': errorResponse('Already replayed successfully, or a replay is in progress'),
+            '429': errorResponse('Rate limit of the original API key exceeded')
+          }
+        })
+      },
+      '/openapi': {
+        get: {
+          summary: 'This document',
+          security: [],
+          responses: { '200': json({ type: 'object' }, 'OpenAPI 3.1 document') }
+        }
+      },
+      '/dispatch-webhooks': {
+        post: serviceRoleOperation({ summary: 'Deliver due webhook events', responses: { '200': json(successObject({}), 'Delivery summary') } })
+      },
+      '/notify-expiring-keys': {
+        post: serviceRoleOperation({ summary: 'Queue api_key.expiring events', responses: { '200': json(successObject({}), 'Notification summary') } })
+      },
+      '/rollup-usage': {
+        post: serviceRoleOperation({ summary: 'Recompute usage rollups', responses: { '200': json(successObject({}), 'Rollup summary') } })
+      },
+      '/purge-request-logs': {
+        post: serviceRoleOperation({ summary: 'Apply log retention or erase a client phone', responses: { '200': json(successObject({}), 'Retention report') } })
+      }
+    },
+    components: {
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        appToken: { type: 'http', scheme: 'bearer', description: 'Ofair Pro app session token' },
+        serviceRole: { type: 'http', scheme: 'bearer', description: 'Supabase service role key' }
+      },
+      schemas: {
+        LeadSubmissionRequest: getLeadSubmissionSchema(),
+        Error: {
+          type: 'object',
+          required: ['error', 'message', 'request_id'],
+          properties: {
+            error: { type: 'string', description: 'Error code' },
+            message: { type: 'string', description: 'Human-readable message, in the language asked for with lang or Accept-Language' },
+            field: { type: 'string', description: 'First request field that failed validation' },
+            errors: { type: 'array', items: ref('ValidationError'), description: 'Every failed field (validation_error)' },
+            required_scope: { type: 'string', description: 'Scope the API key is missing (insufficient_scope)' },
+            retry_after: { type: 'integer', description: 'Seconds to wait before retrying (rate_limit_exceeded, ip_locked_out)' },
+            reset_at: { type: 'string', format: 'date-time', description: 'When the lead quota resets (quota_exceeded)' },
+            request_id: { type: 'string', format: 'uuid' }
+          }
+        },
+        ValidationError: {
+          type: 'object',
+          required: ['field', 'code', 'message'],
+          properties: {
+            field: { type: 'string' },
+            code: { type: 'string', enum: VALIDATION_ERROR_CODES },
+            message: { type: 'string' }
+          }
+        },
+        BatchResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            mode: { type: 'string' },
+            total: { type: 'integer' },
+            created: { type: 'integer' },
+            failed: { type: 'integer' },
+            results: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  index: { type: 'integer' },
+                  success: { type: 'boolean' },
+                  lead_id: { type: 'string', format: 'uuid' },
+                  ...STORED_PHONE,
+                  error: { type: 'string' },
+                  message: { type: 'string' },
+                  field: { type: 'string' },
+                  errors: { type: 'array', items: ref('ValidationError') },
+                  reset_at: { type: 'string', format: 'date-time' }
+                }
+              }
+            },
+            request_id: { type: 'string', format: 'uuid' }
+          }
+        },
+        Lead: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            title: { type: 'string' },
+            description: { type: 'string' },
+            location: { type: 'string' },
+            profession: { type: 'array', items: { type: 'string' } },
+            client_name: { type: 'string' },
+            client_phone: { type: 'string', description: 'Masked unless the key has the leads:read_contact scope' },
+            client_phone_e164: { type: ['string', 'null'], description: 'Masked unless the key has the leads:read_contact scope' },
+            budget: { type: ['number', 'null'] },
+            status: { type: 'string' },
+            created_at: { type: 'string', format: 'date-time' }
+          }
+        },
+        WebhookEndpoint: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            url: { type: 'string', format: 'uri' },
+            event_types: { type: 'array', items: { type: 'string', enum: WEBHOOK_EVENT_TYPES } },
+            description: { type: ['string', 'null'] },
+            is_active: { type: 'boolean' },
+            created_at: { type: 'string', format: 'date-time' }
+          }
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,162 @@
+import { assert, assertEquals } from "https://deno.land/std@0.177.0/testing/asserts.ts";
+import { NATIONAL_PHONE_PATTERN, normalizeIsraeliPhone, PhoneType } from "./phone.ts";
+
+Deno.test('normalizeIsraeliPhone parses national and international formats', () => {
+  const cases: [string, [string, PhoneType] | null][] = [
+    // Mobile, every allowed prefix
+    ['0501234567', ['0501234567', 'mobile']],
+    ['0511234567', ['0511234567', 'mobile']],
+    ['0521234567', ['0521234567', 'mobile']],
+    ['0531234567', ['0531234567', 'mobile']],
+    ['0541234567', ['0541234567', 'mobile']],
+    ['0551234567', ['0551234567', 'mobile']],
+    ['0561234567', ['0561234567', 'mobile']],
+    ['0581234567', ['0581234567', 'mobile']],
+    ['0591234567', ['0591234567', 'mobile']],
+    ['0571234567', null],
+    // Area codes
+    ['022345678', ['022345678', 'landline']],
+    ['039876543', ['039876543', 'landline']],
+    ['048123456', ['048123456', 'landline']],
+    ['086543210', ['086543210', 'landline']],
+    ['097654321', ['097654321', 'landline']],
+    ['052345678', null],
+    ['062345678', null],
+    ['072345678', null],
+    // Subscriber numbers don't start with 0 or 1
+    ['021234567', null],
+    ['030234567', null],
+    // Nationwide and VoIP landlines
+    ['0721234567', ['0721234567', 'landline']],
+    ['0731234567', ['0731234567', 'landline']],
+    ['0741234567', ['0741234567', 'landline']],
+    ['0751234567', null],
+    ['0761234567', ['0761234567', 'landline']],
+    ['0771234567', ['0771234567', 'landline']],
+    ['0781234567', ['0781234567', 'landline']],
+    ['0791234567', ['0791234567', 'landline']],
+    ['0701234567', null],
+    ['0711234567', null],
+    // Separators
+    ['050-1234567', ['0501234567', 'mobile']],
+    ['050-123-4567', ['0501234567', 'mobile']],
+    ['050 123 4567', ['0501234567', 'mobile']],
+    ['050.123.4567', ['0501234567', 'mobile']],
+    ['(050) 123-4567', ['0501234567', 'mobile']],
+    ['02-234-5678', ['022345678', 'landline']],
+    ['(02) 2345678', ['022345678', 'landline']],
+    ['  0501234567  ', ['0501234567', 'mobile']],
+    ['050\t1234567', ['0501234567', 'mobile']],
+    ['050/1234567', null],
+    ['050_1234567', null],
+    ['050-1234567 ext 12', null],
+    // International
+    ['+972501234567', ['0501234567', 'mobile']],
+    ['+972-50-123-4567', ['0501234567', 'mobile']],
+    ['+972 50 123 4567', ['0501234567', 'mobile']],
+    ['+972 (0)50-123-4567', ['0501234567', 'mobile']],
+    ['+9720501234567', ['0501234567', 'mobile']],
+    ['00972501234567', ['0501234567', 'mobile']],
+    ['00972 50 123 4567', ['0501234567', 'mobile']],
+    ['972501234567', ['0501234567', 'mobile']],
+    ['972-50-123-4567', ['0501234567', 'mobile']],
+    ['9720501234567', ['0501234567', 'mobile']],
+    ['+97222345678', ['022345678', 'landline']],
+    ['+972-2-234-5678', ['022345678', 'landline']],
+    ['97222345678', ['022345678', 'landline']],
+    ['+972721234567', ['0721234567', 'landline']],
+    ['+972571234567', null],
+    ['+97250123456', null],
+    ['+9725012345678', null],
+    ['+12025550123', null],
+    ['+44 20 7946 0958', null],
+    ['0012025550123', null],
+    ['+ 972501234567', ['0501234567', 'mobile']],
+    ['++972501234567', null],
+    ['+972+501234567', null],
+    ['050+1234567', null],
+    // The leading 0 lost, e.g. in a spreadsheet: 9 digits (mobile, nationwide) and 8 digits (area codes)
+    ['501234567', ['0501234567', 'mobile']],
+    ['521234567', ['0521234567', 'mobile']],
+    ['591234567', ['0591234567', 'mobile']],
+    ['50-123-4567', ['0501234567', 'mobile']],
+    ['721234567', ['0721234567', 'landline']],
+    ['791234567', ['0791234567', 'landline']],
+    ['22345678', ['022345678', 'landline']],
+    ['39876543', ['039876543', 'landline']],
+    ['48123456', ['048123456', 'landline']],
+    ['86543210', ['086543210', 'landline']],
+    ['97654321', ['097654321', 'landline']],
+    ['2-234-5678', ['022345678', 'landline']],
+    ['571234567', null],
+    ['751234567', null],
+    ['701234567', null],
+    ['21234567', null],
+    ['62345678', null],
+    ['12345678', null],
+    ['123456789', null],
+    ['50123456', null],
+    ['5012345678', null],
+    ['2234567', null],
+    ['2234567890', null],
+    // Starting with 972 but too short to include the country code
+    ['972345678', null],
+    ['97234567', ['097234567', 'landline']],
+    ['9725012345', null],
+    // Wrong length
+    ['050123456', null],
+    ['05012345678', null],
+    ['02234567', null],
+    ['0223456789', null],
+    ['0', null],
+    ['00', null],
+    ['000000000', null],
+    ['0000000000', null],
+    // Not a number
+    ['', null],
+    ['   ', null],
+    ['+', null],
+    ['---', null],
+    ['()', null],
+    ['abc', null],
+    ['050-ABC-DEFG', null],
+    ['0501234567a', null],
+    ['٠٥٠١٢٣٤٥٦٧', null],
+    ['05O1234567', null]
+  ];
+
+  for (const [input, expected] of cases) {
+    const phone = normalizeIsraeliPhone(input);
+    assertEquals(phone && [phone.national, phone.type], expected, JSON.stringify(input));
+  }
+});
+
+Deno.test('normalizeIsraeliPhone returns E.164 without the trunk 0', () => {
+  const cases: [string, string][] = [
+    ['050-1234567', '+972501234567'],
+    ['+972 (0)50-123-4567', '+972501234567'],
+    ['501234567', '+972501234567'],
+    ['02-234-5678', '+97222345678'],
+    ['22345678', '+97222345678'],
+    ['0791234567', '+972791234567']
+  ];
+
+  for (const [input, e164] of cases) {
+    assertEquals(normalizeIsraeliPhone(input)?.e164, e164, input);
+  }
+});
+
+Deno.test('normalized numbers match NATIONAL_PHONE_PATTERN and normalize to themselves', () => {
+  const inputs = ['0501234567', '+972-2-234-5678', '97234567', '721234567', '00972 59 123 4567'];
+
+  for (const input of inputs) {
+    const phone = normalizeIsraeliPhone(input)!;
+    assert(NATIONAL_PHONE_PATTERN.test(phone.national), input);
+    assertEquals(normalizeIsraeliPhone(phone.national), phone, input);
+    assertEquals(normalizeIsraeliPhone(phone.e164), phone, input);
+  }
+
+  for (const national of ['0571234567', '021234567', '501234567', '+972501234567', '05012345678']) {
+    assert(!NATIONAL_PHONE_PATTERN.test(national), national);
+  }
+});
@@ -0,0 +1,76 @@
+/**
+ * Israeli phone number parsing.
+ *
+ * Accepts national (050-1234567) and international (+972-50-123-4567, 972501234567,
+ * 00972 50 123 4567) formats, with spaces, hyphens, dots or parentheses as separators.
+ */
+
+export type PhoneType = 'mobile' | 'landline';
+
+export interface NormalizedPhone {
+  // National format, digits only (e.g. 0501234567)
+  national: string;
+  // E.164 (e.g. +972501234567)
+  e164: string;
+  type: PhoneType;
+}
+
+export const ISRAEL_COUNTRY_CODE = '972';
+
+// Allowed national numbers, by type (national significant number, without the leading 0)
+const PHONE_PREFIXES: { pattern: RegExp; type: PhoneType }[] = [
+  // 050-056, 058, 059 + 7 digits
+  { pattern: /^5[0-689]\d{7}$/, type: 'mobile' },
+  // Area codes 02, 03, 04, 08, 09 + 7 digit subscriber number, which doesn't start with 0 or 1
+  { pattern: /^[23489][2-9]\d{6}$/, type: 'landline' },
+  // Nationwide and VoIP landlines 072-074, 076-079 + 7 digits
+  { pattern: /^7[2-46-9]\d{7}$/, type: 'landline' }
+];
+
+// Valid numbers in national format, as stored
+export const NATIONAL_PHONE_PATTERN = new RegExp(
+  `^0(?:${PHONE_PREFIXES.map(p => p.pattern.source.slice(1, -1)).join('|')})$`
+);
+
+// Separators allowed between digits
+const SEPARATORS = /[\s\-.()]/g;
+
+/**
+ * Parse an Israeli phone number. Returns null if it isn't a valid mobile or landline number.
+ */
+export function normalizeIsraeliPhone(input: string): NormalizedPhone | null {
+  const compact = input.trim().replace(SEPARATORS, '');
+  if (!/^(?:\+|00)?\d+$/.test(compact)) {
+    return null;
+  }
+
+  let number: string;
+
+  if (compact.startsWith('+') || compact.startsWith('00')) {
+    const international = compact.replace(/^(?:\+|00)/, '');
+    if (!international.startsWith(ISRAEL_COUNTRY_CODE)) {
+      return null;
+    }
+    // A trunk 0 is sometimes kept after the country code: +972 (0)50-123-4567
+    number = international.slice(ISRAEL_COUNTRY_CODE.length).replace(/^0/, '');
+  } else if (compact.startsWith(ISRAEL_COUNTRY_CODE) && compact.length >= 11) {
+    // Country code without +, e.g. 972501234567. National numbers are at most 10 digits.
+    number = compact.slice(ISRAEL_COUNTRY_CODE.length).replace(/^0/, '');
+  } else if (compact.startsWith('0')) {
+    number = compact.slice(1);
+  } else {
+    // The leading 0 is often lost when numbers pass through spreadsheets
+    number = compact;
+  }
+
+  const prefix = PHONE_PREFIXES.find(p => p.pattern.test(number));
+  if (!prefix) {
+    return null;
+  }
+
+  return {
+    national: `0${number}`,
+    e164: `+${ISRAEL_COUNTRY_CODE}${number}`,
+    type: prefix.type
+  };
+}
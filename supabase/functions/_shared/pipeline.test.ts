@@ -0,0 +1,117 @@
+import { assertEquals } from "https://deno.land/std@0.177.0/testing/asserts.ts";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
+import { createRequestContext } from "./requestLogger.ts";
+import { Logger } from "./logger.ts";
+import {
+  compose,
+  errorResult,
+  HandlerContext,
+  withErrorEnvelope,
+  withMethods,
+  withRequestId,
+  withJsonBody,
+  withServiceRoleAuth
+} from "./pipeline.ts";
+
+const silentLogger: Logger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+function contextFor(method: string, headers: Record<string, string> = {}, body?: string): HandlerContext {
+  const req = new Request('https://example.supabase.co/functions/v1/manage-webhooks', { method, headers, body });
+  return {
+    req,
+    supabase: {} as SupabaseClient,
+    request: createRequestContext(req, '/manage-webhooks'),
+    logger: silentLogger,
+    professionalId: null,
+    apiKey: null,
+    rateLimit: null,
+    body: null,
+    headers: {}
+  };
+}
+
+const ok = () => Promise.resolve({ status: 200, body: { success: true } });
+
+Deno.test('withMethods rejects other methods with the error envelope', async () => {
+  const handler = compose([withRequestId, withMethods(['GET', 'POST', 'DELETE'])], ok);
+  const ctx = contextFor('PUT');
+  const result = await handler(ctx);
+
+  assertEquals(result.status, 405);
+  assertEquals(result.body, {
+    error: 'method_not_allowed',
+    message: 'Only GET, POST and DELETE requests are allowed',
+    request_id: ctx.request.requestId
+  });
+  assertEquals(result.headers, { 'Allow': 'GET, POST, DELETE' });
+  assertEquals((await handler(contextFor('DELETE'))).status, 200);
+});
+
+Deno.test('withErrorEnvelope turns exceptions into internal_error', async () => {
+  const handler = compose([withRequestId, withErrorEnvelope], () => Promise.reject(new Error('boom')));
+  const ctx = contextFor('GET');
+  const result = await handler(ctx);
+
+  assertEquals(result.status, 500);
+  assertEquals(result.body, { error: 'internal_error', message: 'An unexpected error occurred', request_id: ctx.request.requestId });
+  assertEquals(result.errorMessage, 'boom');
+});
+
+Deno.test('withRequestId adds the request ID to the logged body too', async () => {
+  const handler = compose([withRequestId], () => Promise.resolve({
+    status: 200,
+    body: { success: true, lead: { id: 'lead-1' } },
+    logBody: { success: true, lead_id: 'lead-1' }
+  }));
+  const ctx = contextFor('GET');
+  const result = await handler(ctx);
+
+  assertEquals(result.logBody, { success: true, lead_id: 'lead-1', request_id: ctx.request.requestId });
+});
+
+Deno.test('withServiceRoleAuth accepts only the service role key', async () => {
+  const previous = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', 'service-role-secret');
+  try {
+    const handler = compose([withServiceRoleAuth], ok);
+
+    assertEquals(
+      await handler(contextFor('POST', { Authorization: 'Bearer app-token' })),
+      errorResult(401, 'unauthorized', 'Service role key required')
+    );
+    assertEquals((await handler(contextFor('POST', { Authorization: 'Bearer service-role-secret' }))).status, 200);
+  } finally {
+    if (previous === undefined) {
+      Deno.env.delete('SUPABASE_SERVICE_ROLE_KEY');
+    } else {
+      Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', previous);
+    }
+  }
+});
+
+Deno.test('withJsonBody rejects bodies that are not JSON objects', async () => {
+  for (const required of [true, false]) {
+    const handler = compose([withJsonBody(required)], ok);
+
+    for (const body of ['null', '42', '"text"', 'true', '[]', '[{"url": "https://example.com"}]']) {
+      assertEquals(
+        await handler(contextFor('POST', {}, body)),
+        errorResult(400, 'invalid_json', 'Request body must be a JSON object'),
+        `${body} (required: ${required})`
+      );
+    }
+
+    assertEquals((await handler(contextFor('POST', {}, '{"key_id": "k"}'))).status, 200);
+  }
+});
+
+Deno.test('withJsonBody requires valid JSON only for required bodies', async () => {
+  assertEquals(
+    await compose([withJsonBody(true)], ok)(contextFor('POST', {}, '{')),
+    errorResult(400, 'invalid_json', 'Request body must be valid JSON')
+  );
+
+  const ctx = contextFor('POST');
+  assertEquals((await compose([withJsonBody(false)], ok)(ctx)).status, 200);
+  assertEquals(ctx.body, {});
+});
@@ -0,0 +1,404 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
+import { corsHeaders } from "./cors.ts";
+import {
+  extractApiKey,
+  validateApiKey,
+  getSupabaseClient,
+  hasScope,
+  getDeprecationHeaders,
+  isServiceRoleRequest,
+  ApiKeyValidationResult
+} from "./apiKeyAuth.ts";
+import { extractAuthToken, validateAuthToken } from "./tokenAuth.ts";
+import {
+  checkRateLimit,
+  checkIpRateLimit,
+  recordAuthFailure,
+  getRateLimitHeaders,
+  RateLimitResult
+} from "./rateLimiter.ts";
+import {
+  createRequestContext,
+  finalizeRequest,
+  getRequestLogger,
+  getRequestIdHeaders,
+  RequestContext
+} from "./requestLogger.ts";
+import { Logger } from "./logger.ts";
+import { localizeErrorBody } from "./messages.ts";
+
+/**
+ * Composable request handling for edge functions.
+ *
+ * A handler is wrapped in middleware (method guard, auth, rate limit, body parsing,
+ * logging, error envelope). Each middleware either returns a result itself, e.g. an
+ * error, or calls next() to continue the chain. Error messages are translated to the
+ * caller's language when the response is sent.
+ */
+
+export interface HandlerContext {
+  req: Request;
+  supabase: SupabaseClient;
+  request: RequestContext;
+  logger: Logger;
+  // Set by the auth middleware
+  professionalId: string | null;
+  apiKey: ApiKeyValidationResult | null;
+  // Set by the rate limit middleware
+  rateLimit: RateLimitResult | null;
+  // Set by the body middleware
+  body: Record<string, unknown> | null;
+  // Headers sent with every response from here on (CORS, request ID, rate limits, deprecation)
+  headers: Record<string, string>;
+}
+
+export interface HandlerResult {
+  status: number;
+  body: Record<string, unknown>;
+  headers?: Record<string, string>;
+  // Recorded in api_request_logs
+  logBody?: Record<string, unknown>;  // logged instead of the response body (e.g. a summary of lead data)
+  leadId?: string | null;
+  errorCode?: string | null;
+  errorMessage?: string | null;
+}
+
+export type Handler = (ctx: HandlerContext) => Promise<HandlerResult>;
+export type Middleware = (ctx: HandlerContext, next: () => Promise<HandlerResult>) => Promise<HandlerResult>;
+
+export interface HandlerOptions {
+  endpoint: string;
+  methods: string[];
+  // token: app session token (Authorization: Bearer), api_key: X-API-Key with IP and key rate limits,
+  // service_role: scheduled jobs called with the service role key
+  auth: 'token' | 'api_key' | 'service_role';
+  // Scope the API key must carry
+  scope?: string;
+  // Parse the JSON body; 'optional' treats a missing or invalid body as {}
+  body?: 'required' | 'optional';
+  // Requests counted against the API key's rate limit (default 1). The body is parsed
+  // before the limit is checked, so the cost can depend on it.
+  rateLimitCost?: (ctx: HandlerContext) => number;
+}
+
+/**
+ * Error envelope shared by all endpoints: { error, message, ...details, request_id }
+ */
+export function errorResult(
+  status: number,
+  errorCode: string,
+  message: string,
+  details: Record<string, unknown> = {},
+  headers: Record<string, string> = {}
+): HandlerResult {
+  return {
+    status,
+    body: { error: errorCode, message, ...details },
+    headers,
+    errorCode
+  };
+}
+
+/**
+ * Run middleware in order, ending with the handler
+ */
+export function compose(middlewares: Middleware[], handler: Handler): Handler {
+  return (ctx) => {
+    const run = (index: number): Promise<HandlerResult> =>
+      index < middlewares.length
+        ? middlewares[index](ctx, () => run(index + 1))
+        : handler(ctx);
+    return run(0);
+  };
+}
+
+/**
+ * Add the request ID to every response body that doesn't carry one
+ */
+export const withRequestId: Middleware = async (ctx, next) => {
+  const result = await next();
+  if (!('request_id' in result.body)) {
+    result.body = { ...result.body, request_id: ctx.request.requestId };
+  }
+  if (result.logBody && !('request_id' in result.logBody)) {
+    result.logBody = { ...result.logBody, request_id: ctx.request.requestId };
+  }
+  return result;
+};
+
+/**
+ * Record the request and its result in api_request_logs
+ */
+export const withRequestLogging: Middleware = async (ctx, next) => {
+  const result = await next();
+  finalizeRequest(ctx.supabase, ctx.request, {
+    status: result.status,
+    body: result.logBody ?? result.body,
+    leadId: result.leadId,
+    errorCode: result.errorCode,
+    errorMessage: result.errorMessage
+  });
+  return result;
+};
+
+/**
+ * Turn unexpected exceptions into a 500 internal_error response
+ */
+export const withErrorEnvelope: Middleware = async (ctx, next) => {
+  try {
+    return await next();
+  } catch (error) {
+    ctx.logger.error('Unexpected error', { error });
+    return {
+      ...errorResult(500, 'internal_error', 'An unexpected error occurred'),
+      errorMessage: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+};
+
+/**
+ * "GET", "GET and POST", "GET, POST and DELETE"
+ */
+function formatMethods(methods: string[]): string {
+  return methods.length > 1
+    ? `${methods.slice(0, -1).join(', ')} and ${methods[methods.length - 1]}`
+    : methods[0];
+}
+
+/**
+ * Reject methods the endpoint doesn't handle
+ */
+export function withMethods(methods: string[]): Middleware {
+  return (ctx, next) => {
+    if (methods.includes(ctx.req.method)) {
+      return next();
+    }
+    return Promise.resolve(errorResult(
+      405,
+      'method_not_allowed',
+      `Only ${formatMethods(methods)} requests are allowed`,
+      {},
+      { 'Allow': methods.join(', ') }
+    ));
+  };
+}
+
+/**
+ * Limit by client IP before authenticating, so invalid keys cannot be used to flood the API
+ */
+export const withIpRateLimit: Middleware = async (ctx, next) => {
+  const ipRateLimit = await checkIpRateLimit(ctx.supabase, ctx.request.clientIp, extractApiKey(ctx.req), ctx.logger);
+  if (!ipRateLimit.allowed) {
+    return errorResult(
+      429,
+      ipRateLimit.errorCode!,
+      ipRateLimit.errorCode === 'ip_locked_out'
+        ? 'Too many invalid API key attempts from this IP. Please wait before retrying.'
+        : 'Rate limit exceeded. Please wait before making more requests.',
+      { retry_after: ipRateLimit.retryAfter },
+      { 'Retry-After': String(ipRateLimit.retryAfter) }
+    );
+  }
+  return next();
+};
+
+/**
+ * Authenticate with X-API-Key and check the key carries the required scope
+ */
+export function withApiKeyAuth(scope?: string): Middleware {
+  return async (ctx, next) => {
+    const apiKey = extractApiKey(ctx.req);
+    if (!apiKey) {
+      return errorResult(401, 'missing_api_key', 'X-API-Key header is required');
+    }
+
+    const keyValidation = await validateApiKey(apiKey, ctx.supabase, ctx.request.clientIp, ctx.logger);
+    if (!keyValidation.isValid) {
+      // Repeating the same invalid key from an IP locks that key out from the IP
+      const authFailure = await recordAuthFailure(ctx.supabase, ctx.request.clientIp, apiKey, keyValidation.errorCode, ctx.logger);
+
+      // Valid key used from a disallowed IP is forbidden rather than unauthenticated
+      const status = keyValidation.errorCode === 'ip_not_allowed' ? 403 : 401;
+      return {
+        ...errorResult(status, keyValidation.errorCode!, keyValidation.error!),
+        errorMessage: authFailure?.lockedOut
+          ? `API key locked out from client IP until ${authFailure.lockedUntil} (lockout ${authFailure.lockoutCount})`
+          : null
+      };
+    }
+
+    ctx.apiKey = keyValidation;
+    ctx.professionalId = keyValidation.professionalId!;
+    ctx.request.apiKeyId = keyValidation.apiKeyId!;
+    ctx.request.professionalId = keyValidation.professionalId!;
+
+    // Rotated keys still work during their grace period, but responses carry a deprecation notice
+    Object.assign(ctx.headers, getDeprecationHeaders(keyValidation));
+
+    if (scope && !hasScope(keyValidation, scope)) {
+      return errorResult(
+        403,
+        'insufficient_scope',
+        `API key is missing the required scope: ${scope}`,
+        { required_scope: scope }
+      );
+    }
+
+    return next();
+  };
+}
+
+/**
+ * Authenticate with an app session token (Authorization: Bearer)
+ */
+export const withTokenAuth: Middleware = async (ctx, next) => {
+  const token = extractAuthToken(ctx.req);
+  if (!token) {
+    return errorResult(401, 'missing_token', 'Authorization token required');
+  }
+
+  const tokenValidation = await validateAuthToken(token, ctx.supabase);
+  if (!tokenValidation.isValid) {
+    return errorResult(401, tokenValidation.errorCode!, tokenValidation.error!);
+  }
+
+  ctx.professionalId = tokenValidation.professionalId!;
+  ctx.request.professionalId = tokenValidation.professionalId!;
+  return next();
+};
+
+/**
+ * Only accept the service role key (scheduled jobs)
+ */
+export const withServiceRoleAuth: Middleware = (ctx, next) => {
+  if (!isServiceRoleRequest(ctx.req)) {
+    return Promise.resolve(errorResult(401, 'unauthorized', 'Service role key required'));
+  }
+  return next();
+};
+
+/**
+ * Apply the API key's rate limits; limit headers are sent with every later response
+ */
+export function withRateLimit(cost: (ctx: HandlerContext) => number = () => 1): Middleware {
+  return async (ctx, next) => {
+    const rateLimitResult = await checkRateLimit(
+      ctx.supabase,
+      ctx.request.apiKeyId!,
+      ctx.professionalId!,
+      cost(ctx),
+      ctx.logger
+    );
+
+    ctx.rateLimit = rateLimitResult;
+    Object.assign(ctx.headers, getRateLimitHeaders(rateLimitResult));
+
+    if (!rateLimitResult.allowed) {
+      return errorResult(
+        429,
+        'rate_limit_exceeded',
+        'Rate limit exceeded. Please wait before making more requests.',
+        {
+          retry_after: rateLimitResult.retryAfter,
+          limits: {
+            minute: { remaining: rateLimitResult.remaining.minute, reset: rateLimitResult.reset.minute },
+            hour: { remaining: rateLimitResult.remaining.hour, reset: rateLimitResult.reset.hour },
+            day: { remaining: rateLimitResult.remaining.day, reset: rateLimitResult.reset.day }
+          }
+        },
+        { 'Retry-After': String(rateLimitResult.retryAfter) }
+      );
+    }
+
+    return next();
+  };
+}
+
+/**
+ * Whether a parsed JSON body is an object (not null, an array or a scalar)
+ */
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse the JSON request body, which must be an object. An optional body that is missing
+ * or not JSON is treated as empty.
+ */
+export function withJsonBody(required: boolean): Middleware {
+  return async (ctx, next) => {
+    let body: unknown;
+    try {
+      body = await ctx.req.json();
+    } catch {
+      if (required) {
+        return errorResult(400, 'invalid_json', 'Request body must be valid JSON');
+      }
+      body = {};
+    }
+
+    if (!isJsonObject(body)) {
+      return errorResult(400, 'invalid_json', 'Request body must be a JSON object');
+    }
+
+    ctx.body = body;
+    ctx.request.requestBody = body;
+    return next();
+  };
+}
+
+/**
+ * Build a request handler from the standard middleware for the endpoint's auth style:
+ *
+ *   api_key: logging, request ID, error envelope, method, IP limit, key auth + scope, rate limit, body
+ *            (body before rate limit when rateLimitCost is set)
+ *   token:   request ID, error envelope, method, token auth, body
+ *   service_role: request ID, error envelope, method, service role check, body
+ */
+export function createHandler(options: HandlerOptions, handler: Handler): (req: Request) => Promise<Response> {
+  const middlewares: Middleware[] = options.auth === 'api_key' ? [withRequestLogging] : [];
+
+  middlewares.push(withRequestId, withErrorEnvelope, withMethods(options.methods));
+
+  const bodyMiddleware = options.body ? [withJsonBody(options.body === 'required')] : [];
+
+  if (options.auth === 'api_key' && options.rateLimitCost) {
+    middlewares.push(withIpRateLimit, withApiKeyAuth(options.scope), ...bodyMiddleware, withRateLimit(options.rateLimitCost));
+  } else if (options.auth === 'api_key') {
+    middlewares.push(withIpRateLimit, withApiKeyAuth(options.scope), withRateLimit(), ...bodyMiddleware);
+  } else if (options.auth === 'service_role') {
+    middlewares.push(withServiceRoleAuth, ...bodyMiddleware);
+  } else {
+    middlewares.push(withTokenAuth, ...bodyMiddleware);
+  }
+
+  const run = compose(middlewares, handler);
+
+  return async (req) => {
+    // Handle CORS preflight
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    const request = createRequestContext(req, options.endpoint);
+    const ctx: HandlerContext = {
+      req,
+      supabase: getSupabaseClient(),
+      request,
+      logger: getRequestLogger(request),
+      professionalId: null,
+      apiKey: null,
+      rateLimit: null,
+      body: null,
+      headers: { ...corsHeaders, ...getRequestIdHeaders(request) }
+    };
+
+    const result = await run(ctx);
+
+    // Messages are translated only in the response, the request log keeps them in English
+    return new Response(JSON.stringify(localizeErrorBody(result.body, request.language)), {
+      status: result.status,
+      headers: { ...ctx.headers, ...result.headers, 'Content-Type': 'application/json' }
+    });
+  };
+}
@@ -0,0 +1,151 @@
+import { assert, assertEquals } from "https://deno.land/std@0.177.0/testing/asserts.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
+import { checkIpRateLimit, checkRateLimit, recordAuthFailure } from "./rateLimiter.ts";
+
+/**
+ * Concurrency harness for the atomic rate limiter.
+ *
+ * Fires parallel requests at the same identifier and checks that exactly the limit is admitted,
+ * and checks that invalid-key lockouts are scoped to the key prefix, unless an IP guesses many keys.
+ * It needs a database with the migrations applied, e.g. a local stack from `supabase start`:
+ *
+ *   SUPABASE_URL=http://127.0.0.1:54321 SUPABASE_SERVICE_ROLE_KEY=... deno test --allow-net --allow-env supabase/functions/_shared/rateLimiter.test.ts
+ *
+ * The tests are skipped when SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY is not set.
+ */
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const ignore = !supabaseUrl || !serviceRoleKey;
+
+function getClient() {
+  return createClient(supabaseUrl!, serviceRoleKey!);
+}
+
+/**
+ * Call check_rate_limit `count` times in parallel for a fresh identifier,
+ * returning how many calls were admitted
+ */
+async function admittedInParallel(count: number, limitPerMinute: number, cost = 1): Promise<number> {
+  const supabase = getClient();
+  const identifier = crypto.randomUUID();
+
+  try {
+    const results = await Promise.all(Array.from({ length: count }, async () => {
+      const { data, error } = await supabase.rpc('check_rate_limit', {
+        p_identifier: identifier,
+        p_identifier_type: 'api_key',
+        p_limit_minute: limitPerMinute,
+        p_limit_hour: 100000,
+        p_limit_day: 1000000,
+        p_cost: cost
+      });
+      if (error) throw error;
+      return (Array.isArray(data) ? data[0] : data).allowed as boolean;
+    }));
+    return results.filter(Boolean).length;
+  } finally {
+    await supabase.from('api_rate_limit_tracking').delete().eq('identifier', identifier);
+  }
+}
+
+Deno.test({
+  name: 'check_rate_limit admits exactly the limit under concurrent requests',
+  ignore,
+  fn: async () => {
+    assertEquals(await admittedInParallel(50, 10), 10);
+  }
+});
+
+Deno.test({
+  name: 'check_rate_limit does not overshoot with concurrent multi-unit requests',
+  ignore,
+  fn: async () => {
+    // Batch submissions cost more than one unit: 6 x 3 = 18 fits in 20, a 7th would not
+    assertEquals(await admittedInParallel(30, 20, 3), 6);
+  }
+});
+
+Deno.test({
+  name: 'checkRateLimit holds the configured per-minute limit under concurrency',
+  ignore,
+  fn: async () => {
+    const supabase = getClient();
+    const apiKeyId = crypto.randomUUID();
+    const professionalId = crypto.randomUUID();
+
+    try {
+      const first = await checkRateLimit(supabase, apiKeyId, professionalId);
+      const limit = first.limits.requests_per_minute;
+
+      // Twice the remaining allowance at once: only the remainder may be admitted
+      const results = await Promise.all(
+        Array.from({ length: 2 * limit }, () => checkRateLimit(supabase, apiKeyId, professionalId))
+      );
+
+      assertEquals(1 + results.filter(result => result.allowed).length, limit);
+      assert(results.filter(result => !result.allowed).every(result => result.errorCode === 'rate_limit_exceeded'));
+    } finally {
+      await supabase.from('api_rate_limit_tracking').delete().eq('identifier', apiKeyId);
+    }
+  }
+});
+
+Deno.test({
+  name: 'invalid-key lockouts apply to the key prefix from an IP, not the whole IP',
+  ignore,
+  fn: async () => {
+    const supabase = getClient();
+    const clientIp = `198.51.100.${Math.floor(Math.random() * 250) + 1}`;
+    const brokenKey = `ofair_pk_${crypto.randomUUID().replaceAll('-', '')}`;
+    const otherKey = `ofair_pk_${crypto.randomUUID().replaceAll('-', '')}`;
+
+    try {
+      let lockedOut = false;
+      for (let i = 0; i < 10 && !lockedOut; i++) {
+        lockedOut = (await recordAuthFailure(supabase, clientIp, brokenKey, 'invalid_api_key'))?.lockedOut ?? false;
+      }
+      assert(lockedOut);
+
+      const broken = await checkIpRateLimit(supabase, clientIp, brokenKey);
+      assertEquals(broken.allowed, false);
+      assertEquals(broken.errorCode, 'ip_locked_out');
+
+      // Other customers behind the same IP keep working
+      assertEquals((await checkIpRateLimit(supabase, clientIp, otherKey)).allowed, true);
+      assertEquals((await checkIpRateLimit(supabase, clientIp, null)).allowed, true);
+    } finally {
+      await supabase.from('api_rate_limit_tracking').delete().like('identifier', `${clientIp}%`);
+    }
+  }
+});
+
+Deno.test({
+  name: 'an IP sending many different invalid keys is locked out',
+  ignore,
+  fn: async () => {
+    const supabase = getClient();
+    const clientIp = `203.0.113.${Math.floor(Math.random() * 250) + 1}`;
+    const randomKey = () => `ofair_pk_${crypto.randomUUID().replaceAll('-', '')}`;
+
+    try {
+      // Every guess has a new key prefix, so no single prefix reaches its threshold
+      let attempts = 0;
+      let lockedOut = false;
+      while (attempts < 100 && !lockedOut) {
+        attempts++;
+        lockedOut = (await recordAuthFailure(supabase, clientIp, randomKey(), 'invalid_api_key'))?.lockedOut ?? false;
+      }
+      assert(lockedOut);
+      assert(attempts > 10, `locked out after ${attempts} attempts`);
+
+      // The whole IP is locked out, whatever key it sends next
+      const next = await checkIpRateLimit(supabase, clientIp, randomKey());
+      assertEquals(next.allowed, false);
+      assertEquals(next.errorCode, 'ip_locked_out');
+      assertEquals((await checkIpRateLimit(supabase, clientIp, null)).errorCode, 'ip_locked_out');
+    } finally {
+      await supabase.from('api_rate_limit_tracking').delete().like('identifier', `${clientIp}%`);
+    }
+  }
+});
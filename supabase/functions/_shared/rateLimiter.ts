@@ -1,4 +1,6 @@
 import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
+import { logger, Logger } from "./logger.ts";
+import { isIpInCidr, parseCidr } from "./ipAllowlist.ts";
 
 export interface RateLimitConfig {
   requests_per_minute: number;
@@ -6,8 +8,13 @@ export interface RateLimitConfig {
   requests_per_day: number;
 }
 
+// Where the limits applied to a request came from
+export type RateLimitScope = 'api_key' | 'professional' | 'global' | 'default' | 'ip' | 'ip_range';
+
 export interface RateLimitResult {
   allowed: boolean;
+  limits: RateLimitConfig;
+  scope: RateLimitScope;
   remaining: {
     minute: number;
     hour: number;
@@ -20,6 +27,13 @@ export interface RateLimitResult {
   };
   retryAfter?: number;
   errorCode?: string;
+  lockedUntil?: string;
+}
+
+export interface AuthFailureResult {
+  lockedOut: boolean;
+  lockoutCount: number;
+  lockedUntil: string | null;
 }
 
 const DEFAULT_LIMITS: RateLimitConfig = {
@@ -28,14 +42,37 @@ const DEFAULT_LIMITS: RateLimitConfig = {
   requests_per_day: 10000
 };
 
+// Per-IP limits applied before authentication, used if no 'ip' config row exists
+const DEFAULT_IP_LIMITS: RateLimitConfig = {
+  requests_per_minute: 600,
+  requests_per_hour: 20000,
+  requests_per_day: 200000
+};
+
+// Auth errors that count towards a lockout (guessing keys, not misconfigured integrations)
+const LOCKOUT_ERROR_CODES = ['invalid_api_key', 'invalid_api_key_format'];
+
+// Repeated failures lock out an (IP, key prefix) pair, so one failing integration behind a shared IP
+// does not lock out every other customer sending from that IP. Failures with many different
+// prefixes (guessing keys) lock out the whole IP (see record_auth_failure).
+const LOCKOUT_KEY_PREFIX_LENGTH = 16;
+
+// Window length in seconds for each tier
+const WINDOW_SECONDS = {
+  minute: 60,
+  hour: 60 * 60,
+  day: 24 * 60 * 60
+};
+
 /**
- * Get rate limit configuration for a specific API key or use global defaults
+ * Get rate limit configuration for a specific API key or use global defaults,
+ * along with the scope it was resolved from
  */
 async function getRateLimitConfig(
   supabase: SupabaseClient,
   apiKeyId: string,
   professionalId: string
-): Promise<RateLimitConfig> {
+): Promise<{ config: RateLimitConfig; scope: RateLimitScope }> {
   // Try to get API key specific config
   const { data: keyConfig } = await supabase
     .from('api_rate_limit_config')
@@ -45,7 +82,7 @@ async function getRateLimitConfig(
     .eq('is_active', true)
     .single();
 
-  if (keyConfig) return keyConfig;
+  if (keyConfig) return { config: keyConfig, scope: 'api_key' };
 
   // Try to get professional specific config
   const { data: proConfig } = await supabase
@@ -56,7 +93,7 @@ async function getRateLimitConfig(
     .eq('is_active', true)
     .single();
 
-  if (proConfig) return proConfig;
+  if (proConfig) return { config: proConfig, scope: 'professional' };
 
   // Fall back to global config
   const { data: globalConfig } = await supabase
@@ -67,175 +104,287 @@ async function getRateLimitConfig(
     .eq('is_active', true)
     .single();
 
-  return globalConfig || DEFAULT_LIMITS;
+  if (globalConfig) return { config: globalConfig, scope: 'global' };
+
+  return { config: DEFAULT_LIMITS, scope: 'default' };
 }
 
 /**
- * Get the start of the current time window
+ * Check rate limits and increment counters if allowed.
+ * `cost` is the number of request units this call consumes (batch submissions cost more than one).
+ *
+ * The check-and-increment runs atomically in the database (check_rate_limit) using
+ * sliding windows, so concurrent requests cannot overshoot the limit.
  */
-function getWindowStart(windowType: 'minute' | 'hour' | 'day'): Date {
-  const now = new Date();
-  switch (windowType) {
-    case 'minute':
-      return new Date(now.getFullYear(), now.getMonth(), now.getDate(), now.getHours(), now.getMinutes(), 0, 0);
-    case 'hour':
-      return new Date(now.getFullYear(), now.getMonth(), now.getDate(), now.getHours(), 0, 0, 0);
-    case 'day':
-      return new Date(now.getFullYear(), now.getMonth(), now.getDate(), 0, 0, 0, 0);
+export async function checkRateLimit(
+  supabase: SupabaseClient,
+  apiKeyId: string,
+  professionalId: string,
+  cost = 1,
+  log: Logger = logger
+): Promise<RateLimitResult> {
+  const { config, scope } = await getRateLimitConfig(supabase, apiKeyId, professionalId);
+
+  const { data, error } = await supabase.rpc('check_rate_limit', {
+    p_identifier: apiKeyId,
+    p_identifier_type: 'api_key',
+    p_limit_minute: config.requests_per_minute,
+    p_limit_hour: config.requests_per_hour,
+    p_limit_day: config.requests_per_day,
+    p_cost: cost
+  });
+
+  const row = Array.isArray(data) ? data[0] : data;
+
+  if (error || !row) {
+    // Fail open: a tracking error should not block legitimate traffic
+    log.error('Error checking rate limit', { error });
+    const now = Date.now();
+    return {
+      allowed: true,
+      limits: config,
+      scope,
+      remaining: {
+        minute: config.requests_per_minute,
+        hour: config.requests_per_hour,
+        day: config.requests_per_day
+      },
+      reset: {
+        minute: new Date(now + 60 * 1000).toISOString(),
+        hour: new Date(now + 60 * 60 * 1000).toISOString(),
+        day: new Date(now + 24 * 60 * 60 * 1000).toISOString()
+      }
+    };
   }
+
+  const result: RateLimitResult = {
+    allowed: row.allowed,
+    limits: config,
+    scope,
+    remaining: {
+      minute: row.remaining_minute,
+      hour: row.remaining_hour,
+      day: row.remaining_day
+    },
+    reset: {
+      minute: new Date(row.reset_minute).toISOString(),
+      hour: new Date(row.reset_hour).toISOString(),
+      day: new Date(row.reset_day).toISOString()
+    }
+  };
+
+  if (!row.allowed) {
+    result.retryAfter = row.retry_after;
+    result.errorCode = 'rate_limit_exceeded';
+  }
+
+  return result;
 }
 
 /**
- * Get the end of the current time window (for reset time)
+ * The part of a presented API key that lockouts are tracked by
  */
-function getWindowEnd(windowType: 'minute' | 'hour' | 'day'): Date {
-  const start = getWindowStart(windowType);
-  switch (windowType) {
-    case 'minute':
-      return new Date(start.getTime() + 60 * 1000);
-    case 'hour':
-      return new Date(start.getTime() + 60 * 60 * 1000);
-    case 'day':
-      return new Date(start.getTime() + 24 * 60 * 60 * 1000);
-  }
+function getLockoutKeyPrefix(apiKey: string | null): string | null {
+  return apiKey ? apiKey.slice(0, LOCKOUT_KEY_PREFIX_LENGTH) : null;
 }
 
 /**
- * Check rate limits and increment counters if allowed
+ * Per-IP limits for a client IP: those of the most specific active range in
+ * api_ip_rate_limit_ranges (e.g., an integration platform's egress IPs), otherwise the 'ip' config row
  */
-export async function checkRateLimit(
+async function getIpRateLimitConfig(
   supabase: SupabaseClient,
-  apiKeyId: string,
-  professionalId: string
-): Promise<RateLimitResult> {
-  const config = await getRateLimitConfig(supabase, apiKeyId, professionalId);
-  const identifier = apiKeyId;
-  const identifierType = 'api_key';
-
-  const minuteWindow = getWindowStart('minute');
-  const hourWindow = getWindowStart('hour');
-  const dayWindow = getWindowStart('day');
-
-  // Get or create tracking record
-  const { data: tracking, error: trackingError } = await supabase
-    .from('api_rate_limit_tracking')
-    .select('*')
-    .eq('identifier', identifier)
-    .eq('identifier_type', identifierType)
+  clientIp: string | null
+): Promise<{ config: RateLimitConfig; scope: RateLimitScope }> {
+  if (clientIp) {
+    const { data: ranges } = await supabase
+      .from('api_ip_rate_limit_ranges')
+      .select('cidr, requests_per_minute, requests_per_hour, requests_per_day')
+      .eq('is_active', true);
+
+    const matching = ((ranges || []) as (RateLimitConfig & { cidr: string })[])
+      .filter(range => isIpInCidr(clientIp, range.cidr))
+      .sort((a, b) => (parseCidr(b.cidr)?.prefixLength ?? 0) - (parseCidr(a.cidr)?.prefixLength ?? 0));
+
+    if (matching.length > 0) {
+      const { requests_per_minute, requests_per_hour, requests_per_day } = matching[0];
+      return { config: { requests_per_minute, requests_per_hour, requests_per_day }, scope: 'ip_range' };
+    }
+  }
+
+  const { data: ipConfig } = await supabase
+    .from('api_rate_limit_config')
+    .select('requests_per_minute, requests_per_hour, requests_per_day')
+    .eq('scope', 'ip')
+    .is('scope_id', null)
+    .eq('is_active', true)
     .single();
 
-  let minuteCount = 0;
-  let hourCount = 0;
-  let dayCount = 0;
+  return { config: ipConfig || DEFAULT_IP_LIMITS, scope: 'ip' };
+}
 
-  if (tracking) {
-    // Reset counters if windows have passed
-    if (new Date(tracking.minute_window) < minuteWindow) {
-      minuteCount = 0;
-    } else {
-      minuteCount = tracking.minute_count;
+/**
+ * Check the per-IP rate limit, and the lockouts of the IP and of the presented API key from that IP, before authenticating.
+ * Requests without a known client IP are not limited here.
+ */
+export async function checkIpRateLimit(
+  supabase: SupabaseClient,
+  clientIp: string | null,
+  apiKey: string | null,
+  log: Logger = logger
+): Promise<RateLimitResult> {
+  const { config, scope } = await getIpRateLimitConfig(supabase, clientIp);
+  const now = Date.now();
+  const unlimited: RateLimitResult = {
+    allowed: true,
+    limits: config,
+    scope,
+    remaining: {
+      minute: config.requests_per_minute,
+      hour: config.requests_per_hour,
+      day: config.requests_per_day
+    },
+    reset: {
+      minute: new Date(now + 60 * 1000).toISOString(),
+      hour: new Date(now + 60 * 60 * 1000).toISOString(),
+      day: new Date(now + 24 * 60 * 60 * 1000).toISOString()
     }
+  };
 
-    if (new Date(tracking.hour_window) < hourWindow) {
-      hourCount = 0;
-    } else {
-      hourCount = tracking.hour_count;
+  if (!clientIp) {
+    return unlimited;
+  }
+
+  const { data, error } = await supabase.rpc('check_ip_rate_limit', {
+    p_ip: clientIp,
+    p_key_prefix: getLockoutKeyPrefix(apiKey),
+    p_limit_minute: config.requests_per_minute,
+    p_limit_hour: config.requests_per_hour,
+    p_limit_day: config.requests_per_day
+  });
+
+  const row = Array.isArray(data) ? data[0] : data;
+
+  if (error || !row) {
+    // Fail open, as for per-key limits
+    log.error('Error checking IP rate limit', { error });
+    return unlimited;
+  }
+
+  const result: RateLimitResult = {
+    allowed: row.allowed,
+    limits: config,
+    scope,
+    remaining: {
+      minute: row.remaining_minute,
+      hour: row.remaining_hour,
+      day: row.remaining_day
+    },
+    reset: {
+      minute: new Date(row.reset_minute).toISOString(),
+      hour: new Date(row.reset_hour).toISOString(),
+      day: new Date(row.reset_day).toISOString()
     }
+  };
 
-    if (new Date(tracking.day_window) < dayWindow) {
-      dayCount = 0;
+  if (!row.allowed) {
+    result.retryAfter = row.retry_after;
+    if (row.locked_until) {
+      result.errorCode = 'ip_locked_out';
+      result.lockedUntil = new Date(row.locked_until).toISOString();
     } else {
-      dayCount = tracking.day_count;
+      result.errorCode = 'rate_limit_exceeded';
     }
   }
 
-  // Check if any limit is exceeded
-  const minuteExceeded = minuteCount >= config.requests_per_minute;
-  const hourExceeded = hourCount >= config.requests_per_hour;
-  const dayExceeded = dayCount >= config.requests_per_day;
-
-  if (minuteExceeded || hourExceeded || dayExceeded) {
-    // Calculate retry after (seconds until next window)
-    let retryAfter = 60; // Default to next minute
-    if (dayExceeded) {
-      retryAfter = Math.ceil((getWindowEnd('day').getTime() - Date.now()) / 1000);
-    } else if (hourExceeded) {
-      retryAfter = Math.ceil((getWindowEnd('hour').getTime() - Date.now()) / 1000);
-    } else {
-      retryAfter = Math.ceil((getWindowEnd('minute').getTime() - Date.now()) / 1000);
-    }
+  return result;
+}
 
-    return {
-      allowed: false,
-      remaining: {
-        minute: Math.max(0, config.requests_per_minute - minuteCount),
-        hour: Math.max(0, config.requests_per_hour - hourCount),
-        day: Math.max(0, config.requests_per_day - dayCount)
-      },
-      reset: {
-        minute: getWindowEnd('minute').toISOString(),
-        hour: getWindowEnd('hour').toISOString(),
-        day: getWindowEnd('day').toISOString()
-      },
-      retryAfter,
-      errorCode: 'rate_limit_exceeded'
-    };
+/**
+ * Record a failed authentication from an IP. Repeatedly sending the same invalid key locks that key
+ * out from the IP, and sending many different invalid keys locks out the IP, for an escalating period
+ * (see record_auth_failure). Returns null if nothing was recorded.
+ */
+export async function recordAuthFailure(
+  supabase: SupabaseClient,
+  clientIp: string | null,
+  apiKey: string | null,
+  errorCode: string | undefined,
+  log: Logger = logger
+): Promise<AuthFailureResult | null> {
+  const keyPrefix = getLockoutKeyPrefix(apiKey);
+  if (!clientIp || !keyPrefix || !errorCode || !LOCKOUT_ERROR_CODES.includes(errorCode)) {
+    return null;
   }
 
-  // Increment counters
-  const newMinuteCount = minuteCount + 1;
-  const newHourCount = hourCount + 1;
-  const newDayCount = dayCount + 1;
-
-  // Upsert tracking record
-  const { error: upsertError } = await supabase
-    .from('api_rate_limit_tracking')
-    .upsert({
-      identifier,
-      identifier_type: identifierType,
-      minute_window: minuteWindow.toISOString(),
-      minute_count: newMinuteCount,
-      hour_window: hourWindow.toISOString(),
-      hour_count: newHourCount,
-      day_window: dayWindow.toISOString(),
-      day_count: newDayCount,
-      last_request_at: new Date().toISOString()
-    }, {
-      onConflict: 'identifier,identifier_type'
-    });
-
-  if (upsertError) {
-    console.error('Error updating rate limit tracking:', upsertError);
+  const { data, error } = await supabase.rpc('record_auth_failure', { p_ip: clientIp, p_key_prefix: keyPrefix });
+  const row = Array.isArray(data) ? data[0] : data;
+
+  if (error || !row) {
+    log.error('Error recording auth failure', { error });
+    return null;
   }
 
   return {
-    allowed: true,
-    remaining: {
-      minute: config.requests_per_minute - newMinuteCount,
-      hour: config.requests_per_hour - newHourCount,
-      day: config.requests_per_day - newDayCount
-    },
-    reset: {
-      minute: getWindowEnd('minute').toISOString(),
-      hour: getWindowEnd('hour').toISOString(),
-      day: getWindowEnd('day').toISOString()
-    }
+    lockedOut: row.locked_out,
+    lockoutCount: row.lockout_count,
+    lockedUntil: row.locked_until ? new Date(row.locked_until).toISOString() : null
+  };
+}
+
+/**
+ * Seconds until a window resets
+ */
+function secondsUntil(reset: string): number {
+  return Math.max(0, Math.ceil((new Date(reset).getTime() - Date.now()) / 1000));
+}
+
+/**
+ * Per-window consumption against the configured limits
+ */
+export function getRateLimitUsage(result: RateLimitResult) {
+  const tier = (limit: number, remaining: number, reset: string) => ({
+    limit,
+    used: Math.max(0, limit - remaining),
+    remaining,
+    reset
+  });
+
+  return {
+    minute: tier(result.limits.requests_per_minute, result.remaining.minute, result.reset.minute),
+    hour: tier(result.limits.requests_per_hour, result.remaining.hour, result.reset.hour),
+    day: tier(result.limits.requests_per_day, result.remaining.day, result.reset.day)
   };
 }
 
 /**
- * Generate rate limit headers for response
+ * Generate rate limit headers for response.
+ * Besides the per-window X-RateLimit-* headers, this emits the IETF draft
+ * (draft-ietf-httpapi-ratelimit-headers-07) RateLimit and RateLimit-Policy fields.
+ * RateLimit describes the window closest to being exhausted.
  */
 export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const { limits, remaining, reset } = result;
+
+  const windows = [
+    { limit: limits.requests_per_minute, remaining: remaining.minute, reset: reset.minute, window: WINDOW_SECONDS.minute },
+    { limit: limits.requests_per_hour, remaining: remaining.hour, reset: reset.hour, window: WINDOW_SECONDS.hour },
+    { limit: limits.requests_per_day, remaining: remaining.day, reset: reset.day, window: WINDOW_SECONDS.day }
+  ];
+  const closest = windows.reduce((min, w) => w.remaining < min.remaining ? w : min);
+
   return {
-    'X-RateLimit-Limit-Minute': '60',
-    'X-RateLimit-Remaining-Minute': String(result.remaining.minute),
-    'X-RateLimit-Reset-Minute': result.reset.minute,
-    'X-RateLimit-Limit-Hour': '1000',
-    'X-RateLimit-Remaining-Hour': String(result.remaining.hour),
-    'X-RateLimit-Reset-Hour': result.reset.hour,
-    'X-RateLimit-Limit-Day': '10000',
-    'X-RateLimit-Remaining-Day': String(result.remaining.day),
-    'X-RateLimit-Reset-Day': result.reset.day
+    'X-RateLimit-Limit-Minute': String(limits.requests_per_minute),
+    'X-RateLimit-Remaining-Minute': String(remaining.minute),
+    'X-RateLimit-Reset-Minute': reset.minute,
+    'X-RateLimit-Limit-Hour': String(limits.requests_per_hour),
+    'X-RateLimit-Remaining-Hour': String(remaining.hour),
+    'X-RateLimit-Reset-Hour': reset.hour,
+    'X-RateLimit-Limit-Day': String(limits.requests_per_day),
+    'X-RateLimit-Remaining-Day': String(remaining.day),
+    'X-RateLimit-Reset-Day': reset.day,
+    'X-RateLimit-Scope': result.scope,
+    'RateLimit': `limit=${closest.limit}, remaining=${closest.remaining}, reset=${secondsUntil(closest.reset)}`,
+    'RateLimit-Policy': windows.map(w => `${w.limit};w=${w.window}`).join(', ')
   };
 }
@@ -0,0 +1,202 @@
+import { assert, assertEquals, assertMatch, assertNotEquals } from "https://deno.land/std@0.177.0/testing/asserts.ts";
+import { Logger, LogFields } from "./logger.ts";
+import {
+  CONTACT_REDACTION_POLICY,
+  findRedactedFields,
+  hmacSha256,
+  LOG_REDACTION_POLICY,
+  parseRedactionRules,
+  redact,
+  redactText,
+  RedactionPolicy
+} from "./redaction.ts";
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Logger that records warnings and errors instead of writing them
+ */
+function createRecordingLogger() {
+  const lines: { level: string; message: string; fields?: LogFields }[] = [];
+  const record = (level: string) => (message: string, fields?: LogFields) => {
+    lines.push({ level, message, fields });
+  };
+  const log: Logger = { debug: record('debug'), info: record('info'), warn: record('warn'), error: record('error') };
+  return { log, lines };
+}
+
+/**
+ * Run a test with PII_HASH_SECRET set (or unset), restoring the previous value afterwards
+ */
+async function withHashSecret(secret: string | undefined, test: () => Promise<void>): Promise<void> {
+  const previous = Deno.env.get('PII_HASH_SECRET');
+  if (secret === undefined) {
+    Deno.env.delete('PII_HASH_SECRET');
+  } else {
+    Deno.env.set('PII_HASH_SECRET', secret);
+  }
+  try {
+    await test();
+  } finally {
+    if (previous === undefined) {
+      Deno.env.delete('PII_HASH_SECRET');
+    } else {
+      Deno.env.set('PII_HASH_SECRET', previous);
+    }
+  }
+}
+
+const hashPolicy: RedactionPolicy = {
+  fields: { client_phone: { action: 'hash' } },
+  detectInText: false
+};
+
+Deno.test('hmacSha256 matches the RFC 4231 test vector', async () => {
+  assertEquals(
+    toHex(await hmacSha256('Jefe', 'what do ya want for nothing?')),
+    '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+  );
+});
+
+Deno.test('redact applies field rules at any depth', async () => {
+  const body = {
+    client_phone: '0501234567',
+    client_name: 'ישראל ישראלי',
+    description: 'צריך שיפוץ מטבח כולל החלפת ארונות',
+    api_key: 'ofair_pk_abc',
+    leads: [{ client_phone: '0527654321', location: 'חיפה' }]
+  };
+
+  assertEquals(await redact(body, LOG_REDACTION_POLICY), {
+    client_phone: '******4567',
+    client_name: 'י***********',
+    description: 'צריך שיפוץ מטבח כולל…',
+    leads: [{ client_phone: '******4321', location: 'חיפה' }]
+  });
+
+  // The input is left untouched
+  assertEquals(body.client_phone, '0501234567');
+  assertEquals(await redact(null, LOG_REDACTION_POLICY), null);
+});
+
+Deno.test('redact masks short values completely', async () => {
+  assertEquals(await redact({ client_phone: '123' }, LOG_REDACTION_POLICY), { client_phone: '****' });
+});
+
+Deno.test('redact replaces phones and emails in free text only when detection is on', async () => {
+  const body = { notes: 'התקשרו ל-050-123-4567 או +972 52 765 4321, מייל dana@example.com' };
+
+  assertEquals(await redact(body, LOG_REDACTION_POLICY), {
+    notes: 'התקשרו ל-[phone] או [phone], מייל [email]'
+  });
+  assertEquals(await redact(body, CONTACT_REDACTION_POLICY), body);
+});
+
+Deno.test('redactText leaves numbers that are not phones alone', () => {
+  const cases: [string, string][] = [
+    ['0501234567', '[phone]'],
+    ['03-1234567', '[phone]'],
+    ['00972501234567', '[phone]'],
+    ['+1 415 555 2671', '[phone]'],
+    ['order 12345', 'order 12345'],
+    ['id abc0501234567', 'id abc0501234567'],
+    ['2024-01-15', '2024-01-15']
+  ];
+
+  for (const [text, expected] of cases) {
+    assertEquals(redactText(text), expected, text);
+  }
+});
+
+Deno.test('truncation runs after detection, so no partial phone is left', async () => {
+  const policy: RedactionPolicy = { fields: { description: { action: 'truncate', maxLength: 12 } }, detectInText: true };
+  assertEquals(await redact({ description: 'טלפון 0501234567 בערב' }, policy), { description: 'טלפון [phone…' });
+});
+
+Deno.test('the hash action is a keyed HMAC', async () => {
+  const hashPhone = async (phone: string) => (await redact({ client_phone: phone }, hashPolicy))!.client_phone as string;
+
+  await withHashSecret('first-secret', async () => {
+    const first = await hashPhone('0501234567');
+
+    assertMatch(first, /^hmac:[0-9a-f]{16}$/);
+    assertEquals(await hashPhone('0501234567'), first);
+    assertNotEquals(await hashPhone('0527654321'), first);
+    assertEquals(first, `hmac:${toHex(await hmacSha256('first-secret', '0501234567')).slice(0, 16)}`);
+
+    await withHashSecret('second-secret', async () => {
+      assertNotEquals(await hashPhone('0501234567'), first);
+    });
+  });
+});
+
+Deno.test('the hash action masks values when no secret is configured', async () => {
+  await withHashSecret(undefined, async () => {
+    assertEquals(await redact({ client_phone: '0501234567' }, hashPolicy), { client_phone: '****' });
+  });
+});
+
+Deno.test('findRedactedFields lists fields whose logged value differs from the original', async () => {
+  const logged = (await redact({
+    client_phone: '0501234567',
+    location: 'תל אביב',
+    notes: 'מייל dana@example.com',
+    token: 'secret'
+  }, LOG_REDACTION_POLICY))!;
+
+  assertEquals(findRedactedFields(logged, LOG_REDACTION_POLICY), ['client_phone', 'notes']);
+});
+
+Deno.test('parseRedactionRules keeps valid rules and logs the invalid ones', () => {
+  const { log, lines } = createRecordingLogger();
+  const rules = parseRedactionRules(JSON.stringify({
+    client_name: { action: 'hash' },
+    location: { action: 'truncate', maxLength: 5 },
+    notes: { action: 'encrypt' },
+    city: null
+  }), log);
+
+  assertEquals(rules, {
+    client_name: { action: 'hash' },
+    location: { action: 'truncate', maxLength: 5 }
+  });
+  assertEquals(lines.map(line => [line.level, line.fields?.field]), [['warn', 'notes'], ['warn', 'city']]);
+});
+
+Deno.test('parseRedactionRules ignores missing and malformed JSON', () => {
+  const { log, lines } = createRecordingLogger();
+
+  assertEquals(parseRedactionRules(undefined, log), {});
+  assertEquals(parseRedactionRules('', log), {});
+  assertEquals(lines.length, 0);
+
+  assertEquals(parseRedactionRules('{not json', log), {});
+  assertEquals(lines.length, 1);
+  assert(lines[0].message.includes('not valid JSON'));
+});
+
+Deno.test('parseRedactionRules keeps the last 4 phone digits that client erasure matches on', async () => {
+  const { log, lines } = createRecordingLogger();
+  const rules = parseRedactionRules(JSON.stringify({
+    client_phone: { action: 'hash' },
+    client_phone_e164: { action: 'mask', keepLast: 2 },
+    client_name: { action: 'hash' }
+  }), log);
+
+  assertEquals(rules, { client_name: { action: 'hash' } });
+  assertEquals(lines.map(line => [line.level, line.fields?.field]), [['warn', 'client_phone'], ['warn', 'client_phone_e164']]);
+
+  // A mask that keeps the last 4 digits is allowed, and the logged value still ends with them
+  const masks = parseRedactionRules(JSON.stringify({
+    client_phone: { action: 'mask', keepFirst: 3, keepLast: 4 },
+    client_phone_e164: { action: 'mask', keepFirst: 8, keepLast: 4 }
+  }), log);
+  assertEquals(Object.keys(masks), ['client_phone']);
+
+  for (const phone of ['0501234567', '021234567']) {
+    const logged = await redact({ client_phone: phone }, { fields: masks, detectInText: true });
+    assertMatch(JSON.stringify(logged), new RegExp(`"client_phone":"[^"]*${phone.slice(-4)}"`), phone);
+  }
+});
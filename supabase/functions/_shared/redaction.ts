@@ -0,0 +1,224 @@
+import { logger, Logger } from "./logger.ts";
+
+/**
+ * Declarative PII redaction for logged request and response bodies
+ */
+
+export type RedactionAction = 'mask' | 'hash' | 'truncate' | 'drop';
+
+export interface RedactionRule {
+  action: RedactionAction;
+  keepFirst?: number;  // mask: characters left visible at the start
+  keepLast?: number;   // mask: characters left visible at the end
+  maxLength?: number;  // truncate: characters kept
+}
+
+export interface RedactionPolicy {
+  // Rules by field name, applied at any depth (e.g. inside batch "leads" items)
+  fields: Record<string, RedactionRule>;
+  // Replace phone numbers and email addresses found in other string values
+  detectInText: boolean;
+}
+
+// Placeholders for values found by text detection
+export const REDACTED_PHONE = '[phone]';
+export const REDACTED_EMAIL = '[email]';
+
+const TRUNCATION_MARKER = '…';
+
+// Replaces hashed values when PII_HASH_SECRET is not set
+const UNHASHED_PLACEHOLDER = '****';
+
+// Israeli numbers (0XX / +972) and other international numbers, with optional separators
+const PHONE_PATTERN = /(?<![\w+])(?:(?:\+|00)972[-\s]?|0)(?:5\d|[2-9])[-\s]?\d{3}[-\s]?\d{4}(?!\w)|(?<![\w+])\+\d{1,3}[-\s]?(?:\d[-\s]?){6,12}\d(?!\w)/g;
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+/**
+ * Policy for request/response bodies written to api_request_logs
+ */
+export const LOG_REDACTION_POLICY: RedactionPolicy = {
+  fields: {
+    client_phone: { action: 'mask', keepLast: 4 },
+    client_phone_e164: { action: 'mask', keepLast: 4 },
+    client_name: { action: 'mask', keepFirst: 1 },
+    description: { action: 'truncate', maxLength: 20 },
+    constraints: { action: 'truncate', maxLength: 20 },
+    password: { action: 'drop' },
+    token: { action: 'drop' },
+    api_key: { action: 'drop' },
+    secret: { action: 'drop' }
+  },
+  detectInText: true
+};
+
+// Fields that client erasure (erase_client_logs) finds by the last 4 digits of the logged phone,
+// so overrides must keep them visible (see parseRedactionRules)
+export const ERASURE_MATCHED_FIELDS = ['client_phone', 'client_phone_e164'];
+
+/**
+ * Policy for lead lookups without the leads:read_contact scope
+ */
+export const CONTACT_REDACTION_POLICY: RedactionPolicy = {
+  fields: {
+    client_phone: { action: 'mask', keepLast: 4 },
+    client_phone_e164: { action: 'mask', keepLast: 4 }
+  },
+  detectInText: false
+};
+
+/**
+ * Mask all but the first/last characters
+ */
+function maskValue(value: string, rule: RedactionRule): string {
+  const keepFirst = rule.keepFirst || 0;
+  const keepLast = rule.keepLast || 0;
+  if (value.length <= keepFirst + keepLast) return '****';
+  return value.slice(0, keepFirst) +
+    '*'.repeat(value.length - keepFirst - keepLast) +
+    (keepLast > 0 ? value.slice(-keepLast) : '');
+}
+
+/**
+ * HMAC-SHA256 of a message
+ */
+export async function hmacSha256(key: string, message: string): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message)));
+}
+
+/**
+ * Short, stable HMAC keyed with PII_HASH_SECRET, so equal values can still be correlated.
+ * Small value spaces (phone numbers) can be hashed exhaustively, so without the secret
+ * the value is masked instead.
+ */
+async function hashValue(value: string): Promise<string> {
+  const secret = Deno.env.get('PII_HASH_SECRET');
+  if (!secret) return UNHASHED_PLACEHOLDER;
+
+  const hex = Array.from(await hmacSha256(secret, value)).map(b => b.toString(16).padStart(2, '0')).join('');
+  return `hmac:${hex.slice(0, 16)}`;
+}
+
+/**
+ * Replace phone numbers and email addresses in free text
+ */
+export function redactText(text: string): string {
+  return text.replace(EMAIL_PATTERN, REDACTED_EMAIL).replace(PHONE_PATTERN, REDACTED_PHONE);
+}
+
+/**
+ * Apply a field rule. Returns undefined when the field should be dropped.
+ */
+async function applyRule(value: unknown, rule: RedactionRule, policy: RedactionPolicy): Promise<unknown> {
+  if (rule.action === 'drop') return undefined;
+  if (value === null || value === undefined) return value;
+
+  if (rule.action === 'hash') {
+    return hashValue(typeof value === 'string' ? value : JSON.stringify(value));
+  }
+
+  // mask and truncate apply to scalar values; structures are redacted recursively instead
+  if (typeof value === 'object') return redactValue(value, policy);
+
+  const text = String(value);
+  if (rule.action === 'mask') return maskValue(text, rule);
+
+  // Detect before truncating, so a phone number cut in half is not left behind
+  const clean = policy.detectInText ? redactText(text) : text;
+  const maxLength = rule.maxLength ?? 0;
+  return clean.length > maxLength ? clean.slice(0, maxLength) + TRUNCATION_MARKER : clean;
+}
+
+/**
+ * Redact a value of any shape (objects and arrays are walked recursively)
+ */
+async function redactValue(value: unknown, policy: RedactionPolicy): Promise<unknown> {
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(item => redactValue(item, policy)));
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, fieldValue] of Object.entries(value as Record<string, unknown>)) {
+      const rule = policy.fields[key];
+      const redacted = rule ? await applyRule(fieldValue, rule, policy) : await redactValue(fieldValue, policy);
+      if (rule?.action !== 'drop') {
+        result[key] = redacted;
+      }
+    }
+    return result;
+  }
+
+  if (typeof value === 'string' && policy.detectInText) {
+    return redactText(value);
+  }
+
+  return value;
+}
+
+/**
+ * Redact a body according to a policy, returning a new object
+ */
+export async function redact(
+  body: Record<string, unknown> | null,
+  policy: RedactionPolicy
+): Promise<Record<string, unknown> | null> {
+  if (!body) return null;
+  return await redactValue(body, policy) as Record<string, unknown>;
+}
+
+/**
+ * Top-level fields of a redacted body whose logged value no longer matches the original
+ * (field rules other than drop, or text where a phone/email was replaced)
+ */
+export function findRedactedFields(body: Record<string, unknown>, policy: RedactionPolicy): string[] {
+  return Object.entries(body)
+    .filter(([key, value]) => {
+      const rule = policy.fields[key];
+      if (rule && rule.action !== 'drop') return true;
+      const text = JSON.stringify(value) || '';
+      return policy.detectInText && (text.includes(REDACTED_PHONE) || text.includes(REDACTED_EMAIL));
+    })
+    .map(([key]) => key);
+}
+
+/**
+ * Whether a rule for a field in ERASURE_MATCHED_FIELDS still logs the last 4 digits of the phone.
+ * A mask longer than the shortest phone number (9 digits) would hide the whole value.
+ */
+function keepsErasureMatch(rule: RedactionRule): boolean {
+  return rule.action === 'mask' && rule.keepLast === 4 && (rule.keepFirst ?? 0) <= 4;
+}
+
+/**
+ * Parse per-field overrides, e.g. {"client_name": {"action": "hash"}}. Invalid rules are ignored,
+ * as are rules that would stop client erasure from finding logged phones (see ERASURE_MATCHED_FIELDS).
+ */
+export function parseRedactionRules(json: string | undefined, log: Logger = logger): Record<string, RedactionRule> {
+  if (!json) return {};
+
+  try {
+    const parsed = JSON.parse(json);
+    const rules: Record<string, RedactionRule> = {};
+    for (const [field, rule] of Object.entries(parsed as Record<string, RedactionRule>)) {
+      if (!rule || !['mask', 'hash', 'truncate', 'drop'].includes(rule.action)) {
+        log.warn('Ignoring invalid redaction rule', { field });
+      } else if (ERASURE_MATCHED_FIELDS.includes(field) && !keepsErasureMatch(rule)) {
+        log.warn('Ignoring redaction rule that hides the last 4 digits client erasure matches on', { field });
+      } else {
+        rules[field] = rule;
+      }
+    }
+    return rules;
+  } catch {
+    log.warn('Ignoring invalid redaction rules: not valid JSON');
+    return {};
+  }
+}
@@ -0,0 +1,237 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
+import { encodeCursor, decodeCursor } from "./leadLookup.ts";
+import { logger, Logger } from "./logger.ts";
+
+export interface RequestLogFilters {
+  requestId?: string;
+  errorCode?: string;
+  status?: number;
+  createdFrom?: string;
+  createdTo?: string;
+  cursor?: string;
+  limit: number;
+}
+
+export interface ReplayClaim {
+  id: string;
+  replay_request_id: string;
+  lead_id: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export interface ReplayClaimResult {
+  status: 'claimed' | 'replayed' | 'in_progress';
+  claim?: ReplayClaim;
+}
+
+export interface RequestLogSearchResult {
+  logs: Record<string, unknown>[];
+  nextCursor: string | null;
+  error?: string;
+  errorCode?: string;
+  field?: string;
+}
+
+// Pagination limits for log search
+export const DEFAULT_LOG_PAGE_SIZE = 20;
+export const MAX_LOG_PAGE_SIZE = 100;
+
+// Only single lead submissions can be replayed
+export const REPLAYABLE_ENDPOINTS = ['/submit-lead-api'];
+
+// A replay claim that was never completed or released (the function crashed) can be taken over after this
+const REPLAY_CLAIM_LEASE_MINUTES = 5;
+
+const REPLAY_CLAIM_COLUMNS = 'id, replay_request_id, lead_id, created_at, completed_at';
+
+// Bodies are stored sanitized at write time; internal error messages and client IPs are not exposed
+const LOG_COLUMNS = 'id, request_id, api_key_id, endpoint, method, request_body, response_status, response_body, ' +
+  'lead_id, error_code, processing_time_ms, idempotency_key, is_replay, replay_of_request_id, created_at';
+
+/**
+ * Search a professional's request logs, newest first
+ */
+export async function searchRequestLogs(
+  supabase: SupabaseClient,
+  professionalId: string,
+  filters: RequestLogFilters,
+  log: Logger = logger
+): Promise<RequestLogSearchResult> {
+  let query = supabase
+    .from('api_request_logs')
+    .select(LOG_COLUMNS)
+    .eq('professional_id', professionalId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(filters.limit + 1);
+
+  if (filters.requestId) {
+    query = query.eq('request_id', filters.requestId);
+  }
+
+  if (filters.errorCode) {
+    query = query.eq('error_code', filters.errorCode);
+  }
+
+  if (filters.status !== undefined) {
+    query = query.eq('response_status', filters.status);
+  }
+
+  if (filters.createdFrom) {
+    query = query.gte('created_at', filters.createdFrom);
+  }
+
+  if (filters.createdTo) {
+    query = query.lte('created_at', filters.createdTo);
+  }
+
+  if (filters.cursor) {
+    const cursor = decodeCursor(filters.cursor);
+    if (!cursor) {
+      return { logs: [], nextCursor: null, error: 'Invalid cursor', errorCode: 'invalid_cursor', field: 'cursor' };
+    }
+    query = query.or(`created_at.lt.${cursor.createdAt},and(created_at.eq.${cursor.createdAt},id.lt.${cursor.id})`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    log.error('Error searching request logs', { error });
+    return { logs: [], nextCursor: null, error: 'Failed to fetch request logs', errorCode: 'database_error' };
+  }
+
+  const rows = (data || []) as { id: string; created_at: string; [column: string]: unknown }[];
+  const hasMore = rows.length > filters.limit;
+  const page = hasMore ? rows.slice(0, filters.limit) : rows;
+  const last = page[page.length - 1];
+
+  return {
+    // The row id is only used for pagination
+    logs: page.map(({ id: _id, ...log }) => log),
+    nextCursor: hasMore && last ? encodeCursor(last.created_at, last.id) : null
+  };
+}
+
+/**
+ * Get a single log entry owned by the professional
+ */
+export async function getRequestLog(
+  supabase: SupabaseClient,
+  professionalId: string,
+  requestId: string
+): Promise<Record<string, unknown> | null> {
+  const { data, error } = await supabase
+    .from('api_request_logs')
+    .select(LOG_COLUMNS)
+    .eq('request_id', requestId)
+    .eq('professional_id', professionalId)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Claim a logged request for replay. Only one replay of a request can hold the claim,
+ * so concurrent or repeated replays cannot create duplicate leads.
+ */
+export async function claimReplay(
+  supabase: SupabaseClient,
+  professionalId: string,
+  originalRequestId: string,
+  replayRequestId: string,
+  log: Logger = logger
+): Promise<ReplayClaimResult> {
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const { data: claim } = await supabase
+      .from('api_request_replays')
+      .insert({
+        professional_id: professionalId,
+        original_request_id: originalRequestId,
+        replay_request_id: replayRequestId
+      })
+      .select(REPLAY_CLAIM_COLUMNS)
+      .single();
+
+    if (claim) {
+      return { status: 'claimed', claim };
+    }
+
+    // Another replay holds the claim
+    const { data: existing, error } = await supabase
+      .from('api_request_replays')
+      .select(REPLAY_CLAIM_COLUMNS)
+      .eq('professional_id', professionalId)
+      .eq('original_request_id', originalRequestId)
+      .maybeSingle();
+
+    if (error) {
+      log.error('Error reading replay claim', { error });
+      return { status: 'in_progress' };
+    }
+
+    if (existing?.completed_at) {
+      return { status: 'replayed', claim: existing };
+    }
+
+    const leaseExpired = existing &&
+      Date.now() - new Date(existing.created_at).getTime() > REPLAY_CLAIM_LEASE_MINUTES * 60 * 1000;
+    if (existing && !leaseExpired) {
+      return { status: 'in_progress', claim: existing };
+    }
+
+    // Take over an abandoned claim (or retry if it was released meanwhile)
+    if (existing) {
+      await supabase
+        .from('api_request_replays')
+        .delete()
+        .eq('id', existing.id)
+        .is('completed_at', null);
+    }
+  }
+
+  return { status: 'in_progress' };
+}
+
+/**
+ * Record the lead created by a successful replay
+ */
+export async function completeReplay(
+  supabase: SupabaseClient,
+  claimId: string,
+  leadId: string,
+  log: Logger = logger
+): Promise<void> {
+  const { error } = await supabase
+    .from('api_request_replays')
+    .update({ lead_id: leadId, completed_at: new Date().toISOString() })
+    .eq('id', claimId);
+
+  if (error) {
+    log.error('Error completing replay claim', { error });
+  }
+}
+
+/**
+ * Release the claim of a failed replay, so the request can be corrected and replayed again
+ */
+export async function releaseReplay(
+  supabase: SupabaseClient,
+  claimId: string,
+  log: Logger = logger
+): Promise<void> {
+  const { error } = await supabase
+    .from('api_request_replays')
+    .delete()
+    .eq('id', claimId);
+
+  if (error) {
+    log.error('Error releasing replay claim', { error });
+  }
+}
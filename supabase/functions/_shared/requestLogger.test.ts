@@ -0,0 +1,191 @@
+import { assert, assertEquals, assertNotEquals } from "https://deno.land/std@0.177.0/testing/asserts.ts";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
+import { settleBackgroundTasks } from "./background.ts";
+import {
+  createRequestContext,
+  extractClientIp,
+  finalizeRequest,
+  logRequest,
+  RequestLogData,
+  ResponseLogData,
+  resolveRequestId
+} from "./requestLogger.ts";
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function requestWith(headers: Record<string, string>): Request {
+  return new Request('https://example.supabase.co/functions/v1/submit-lead-api', { headers });
+}
+
+Deno.test('extractClientIp uses the entry appended by the trusted proxy', () => {
+  const cases: [string, string | null][] = [
+    ['203.0.113.7', '203.0.113.7'],
+    // A client-supplied entry to the left is ignored
+    ['10.0.0.1, 203.0.113.7', '203.0.113.7'],
+    ['198.51.100.1, 10.0.0.1,203.0.113.7', '203.0.113.7'],
+    ['2001:db8::1', '2001:db8::1'],
+    ['10.0.0.1, 2001:db8::1', '2001:db8::1'],
+    ['203.0.113.7, ', '203.0.113.7'],
+    ['not-an-ip', null],
+    ['203.0.113.7, unknown', null]
+  ];
+
+  for (const [forwardedFor, expected] of cases) {
+    assertEquals(extractClientIp(requestWith({ 'X-Forwarded-For': forwardedFor })), expected, forwardedFor);
+  }
+});
+
+Deno.test('extractClientIp ignores headers the client can set', () => {
+  assertEquals(extractClientIp(requestWith({})), null);
+  assertEquals(extractClientIp(requestWith({ 'X-Real-IP': '203.0.113.7' })), null);
+  assertEquals(extractClientIp(requestWith({ 'CF-Connecting-IP': '203.0.113.7' })), null);
+  assertEquals(
+    extractClientIp(requestWith({ 'X-Forwarded-For': '198.51.100.9', 'X-Real-IP': '10.0.0.1' })),
+    '198.51.100.9'
+  );
+});
+
+Deno.test('extractClientIp honours TRUSTED_PROXY_HOPS', () => {
+  Deno.env.set('TRUSTED_PROXY_HOPS', '2');
+  try {
+    const forwardedFor = '10.0.0.1, 203.0.113.7, 198.51.100.2';
+    assertEquals(extractClientIp(requestWith({ 'X-Forwarded-For': forwardedFor })), '203.0.113.7');
+    // Fewer entries than trusted hops: the leftmost entry was added by a trusted proxy
+    assertEquals(extractClientIp(requestWith({ 'X-Forwarded-For': '203.0.113.7' })), '203.0.113.7');
+
+    Deno.env.set('TRUSTED_PROXY_HOPS', 'invalid');
+    assertEquals(extractClientIp(requestWith({ 'X-Forwarded-For': forwardedFor })), '198.51.100.2');
+  } finally {
+    Deno.env.delete('TRUSTED_PROXY_HOPS');
+  }
+});
+
+Deno.test('resolveRequestId uses a UUID X-Request-Id, else the traceparent trace ID', () => {
+  const id = '7C9E6679-7425-40DE-944B-E07FC1F90AE7';
+  assertEquals(resolveRequestId(requestWith({ 'X-Request-Id': id }), null), id.toLowerCase());
+  assertEquals(
+    resolveRequestId(requestWith({ 'X-Request-Id': 'make-run-42' }), '4bf92f3577b34da6a3ce929d0e0e4736'),
+    '4bf92f35-77b3-4da6-a3ce-929d0e0e4736'
+  );
+  assertNotEquals(resolveRequestId(requestWith({ 'X-Request-Id': 'make-run-42' }), null), 'make-run-42');
+});
+
+Deno.test('createRequestContext logs an X-Request-Id that is not a UUID', () => {
+  const warnings: Record<string, unknown>[] = [];
+  const originalWarn = console.warn;
+  console.warn = (line: string) => warnings.push(JSON.parse(line));
+
+  try {
+    const context = createRequestContext(requestWith({ 'X-Request-Id': 'make-run-42' }), '/submit-lead-api');
+    createRequestContext(requestWith({ 'X-Request-Id': crypto.randomUUID() }), '/submit-lead-api');
+    createRequestContext(requestWith({}), '/submit-lead-api');
+
+    assertEquals(warnings.length, 1);
+    assertEquals(warnings[0].rejected_request_id, 'make-run-42');
+    assertEquals(warnings[0].request_id, context.requestId);
+
+    createRequestContext(requestWith({ 'X-Request-Id': 'x'.repeat(5000) }), '/submit-lead-api');
+    assert((warnings[1].rejected_request_id as string).length < 5000);
+  } finally {
+    console.warn = originalWarn;
+  }
+});
+
+// Simulated round-trip of the request log insert
+const INSERT_LATENCY_MS = 100;
+
+/**
+ * Supabase client stub whose inserts take INSERT_LATENCY_MS and fail `failures` times first
+ */
+function createSlowClient(failures = 0) {
+  const rows: Record<string, unknown>[] = [];
+  let remainingFailures = failures;
+  const client = {
+    from: (_table: string) => ({
+      insert: async (row: Record<string, unknown>) => {
+        await delay(INSERT_LATENCY_MS);
+        if (remainingFailures > 0) {
+          remainingFailures--;
+          return { error: { message: 'connection reset' } };
+        }
+        rows.push(row);
+        return { error: null };
+      }
+    })
+  };
+  return { supabase: client as unknown as SupabaseClient, rows };
+}
+
+/**
+ * Run a test with console output discarded, returning the error lines written
+ */
+async function withSilencedConsole(test: () => Promise<void>): Promise<Record<string, unknown>[]> {
+  const errors: Record<string, unknown>[] = [];
+  const original = { log: console.log, warn: console.warn, error: console.error };
+  console.log = () => {};
+  console.warn = () => {};
+  console.error = (line: string) => errors.push(JSON.parse(line));
+  try {
+    await test();
+  } finally {
+    Object.assign(console, original);
+  }
+  return errors;
+}
+
+function logEntry(requestId: string): RequestLogData & ResponseLogData {
+  return {
+    requestId,
+    apiKeyId: null,
+    professionalId: null,
+    endpoint: '/submit-lead-api',
+    method: 'POST',
+    requestBody: null,
+    clientIp: null,
+    idempotencyKey: null,
+    isReplay: false,
+    replayOf: null,
+    responseStatus: 201,
+    responseBody: null,
+    leadId: null,
+    errorCode: null,
+    errorMessage: null,
+    processingTimeMs: 1
+  };
+}
+
+Deno.test('finalizeRequest does not wait for the request log insert', async () => {
+  await withSilencedConsole(async () => {
+    const awaited = createSlowClient();
+    let start = performance.now();
+    await logRequest(awaited.supabase, logEntry(crypto.randomUUID()));
+    const awaitedMs = performance.now() - start;
+
+    const background = createSlowClient();
+    const context = createRequestContext(requestWith({}), '/submit-lead-api');
+    start = performance.now();
+    finalizeRequest(background.supabase, context, { status: 201, body: { success: true } });
+    const backgroundMs = performance.now() - start;
+
+    assert(awaitedMs >= INSERT_LATENCY_MS, `awaited insert took ${awaitedMs}ms`);
+    assert(backgroundMs < INSERT_LATENCY_MS / 2, `finalizeRequest took ${backgroundMs}ms`);
+    assertEquals(background.rows.length, 0);
+
+    await settleBackgroundTasks();
+    assertEquals(background.rows.map(row => row.request_id), [context.requestId]);
+  });
+});
+
+Deno.test('a request log that cannot be written is logged with its entry', async () => {
+  const errors = await withSilencedConsole(async () => {
+    const { supabase, rows } = createSlowClient(2);
+    const context = createRequestContext(requestWith({}), '/submit-lead-api');
+    finalizeRequest(supabase, context, { status: 500, body: null, errorCode: 'internal_error' });
+    await settleBackgroundTasks();
+    assertEquals(rows.length, 0);
+  });
+
+  const failure = errors.find(line => line.message === 'Failed to write request log');
+  assert(failure, 'failure was not logged');
+  assertEquals((failure.log_entry as Record<string, unknown>).error_code, 'internal_error');
+});
@@ -1,4 +1,10 @@
 import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
+import { redact, parseRedactionRules, LOG_REDACTION_POLICY, RedactionPolicy } from "./redaction.ts";
+import { createLogger, logger, Logger, LogLevel } from "./logger.ts";
+import { UUID_REGEX } from "./leadLookup.ts";
+import { runInBackground } from "./background.ts";
+import { resolveLanguage, Language } from "./messages.ts";
+import { isIpAddress } from "./ipAllowlist.ts";
 
 export interface RequestLogData {
   requestId: string;
@@ -8,6 +14,9 @@ export interface RequestLogData {
   method: string;
   requestBody: Record<string, unknown> | null;
   clientIp: string | null;
+  idempotencyKey: string | null;
+  isReplay: boolean;
+  replayOf: string | null;
 }
 
 export interface ResponseLogData {
@@ -26,85 +35,140 @@ export function generateRequestId(): string {
   return crypto.randomUUID();
 }
 
+// W3C Trace Context: version-traceid-parentid-flags
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
 /**
- * Sanitize request body by masking sensitive data
+ * Extract the trace ID from a W3C traceparent header
  */
-export function sanitizeRequestBody(body: Record<string, unknown> | null): Record<string, unknown> | null {
-  if (!body) return null;
+export function extractTraceId(req: Request): string | null {
+  const match = req.headers.get('traceparent')?.trim().toLowerCase().match(TRACEPARENT_PATTERN);
+  if (!match || match[1] === 'ff' || /^0+$/.test(match[2]) || /^0+$/.test(match[3])) {
+    return null;
+  }
+  return match[2];
+}
 
-  const sanitized = { ...body };
+// Longest rejected X-Request-Id value written to the logs
+const MAX_LOGGED_REQUEST_ID_LENGTH = 200;
+
+/**
+ * Use the caller's correlation ID when there is one: X-Request-Id (a UUID), else the
+ * traceparent trace ID (128 bits, formatted as a UUID), else a new ID.
+ * An X-Request-Id that is not a UUID is not used (createRequestContext logs it).
+ */
+export function resolveRequestId(req: Request, traceId: string | null): string {
+  const incoming = req.headers.get('x-request-id')?.trim();
+  if (incoming && UUID_REGEX.test(incoming)) {
+    return incoming.toLowerCase();
+  }
+
+  if (traceId) {
+    return `${traceId.slice(0, 8)}-${traceId.slice(8, 12)}-${traceId.slice(12, 16)}-${traceId.slice(16, 20)}-${traceId.slice(20)}`;
+  }
+
+  return generateRequestId();
+}
 
-  // Mask phone numbers (show only last 4 digits)
-  if (sanitized.client_phone && typeof sanitized.client_phone === 'string') {
-    const phone = sanitized.client_phone;
-    sanitized.client_phone = phone.length > 4
-      ? '*'.repeat(phone.length - 4) + phone.slice(-4)
-      : '****';
+// Logging policy, with per-field overrides from LOG_REDACTION_RULES (JSON)
+const logRedactionPolicy: RedactionPolicy = {
+  ...LOG_REDACTION_POLICY,
+  fields: {
+    ...LOG_REDACTION_POLICY.fields,
+    ...parseRedactionRules(Deno.env.get('LOG_REDACTION_RULES'))
   }
+};
 
-  // Remove any potential sensitive fields
-  delete sanitized.password;
-  delete sanitized.token;
-  delete sanitized.api_key;
+/**
+ * Redaction policy applied to logged bodies
+ */
+export function getLogRedactionPolicy(): RedactionPolicy {
+  return logRedactionPolicy;
+}
 
-  return sanitized;
+/**
+ * Sanitize request body by redacting PII (see LOG_REDACTION_POLICY)
+ */
+export function sanitizeRequestBody(body: Record<string, unknown> | null): Promise<Record<string, unknown> | null> {
+  return redact(body, logRedactionPolicy);
 }
 
 /**
- * Extract client IP from request
+ * Sanitize response body with the same policy as request bodies
+ */
+export function sanitizeResponseBody(body: Record<string, unknown> | null): Promise<Record<string, unknown> | null> {
+  return redact(body, logRedactionPolicy);
+}
+
+// Proxies in front of the functions that append to X-Forwarded-For (override with
+// TRUSTED_PROXY_HOPS). On Supabase this is the edge gateway.
+const DEFAULT_TRUSTED_PROXY_HOPS = 1;
+
+/**
+ * Extract client IP from request.
+ *
+ * Each proxy appends the address it received the request from to X-Forwarded-For, and the
+ * client can send any entries it likes to the left of those. Only the entry appended by the
+ * outermost trusted proxy is used: the TRUSTED_PROXY_HOPS-th entry from the right.
+ * Other headers (X-Real-IP, CF-Connecting-IP) are set by the client and ignored.
  */
 export function extractClientIp(req: Request): string | null {
-  // Try various headers that might contain the real IP
   const forwardedFor = req.headers.get('x-forwarded-for');
-  if (forwardedFor) {
-    return forwardedFor.split(',')[0].trim();
+  if (!forwardedFor) {
+    return null;
   }
 
-  const realIp = req.headers.get('x-real-ip');
-  if (realIp) {
-    return realIp;
-  }
+  const configuredHops = Number(Deno.env.get('TRUSTED_PROXY_HOPS'));
+  const trustedHops = Number.isInteger(configuredHops) && configuredHops > 0 ? configuredHops : DEFAULT_TRUSTED_PROXY_HOPS;
 
-  const cfConnectingIp = req.headers.get('cf-connecting-ip');
-  if (cfConnectingIp) {
-    return cfConnectingIp;
-  }
-
-  return null;
+  const entries = forwardedFor.split(',').map(entry => entry.trim()).filter(entry => entry !== '');
+  const clientIp = entries[Math.max(entries.length - trustedHops, 0)];
+  return clientIp && isIpAddress(clientIp) ? clientIp : null;
 }
 
+// Attempts at writing a log row before it is kept in the function logs instead
+const LOG_WRITE_ATTEMPTS = 2;
+
 /**
- * Log an API request
+ * Log an API request. A row that can't be written is emitted as a structured
+ * log line, so the entry is not lost.
  */
 export async function logRequest(
   supabase: SupabaseClient,
-  data: RequestLogData & ResponseLogData
+  data: RequestLogData & ResponseLogData,
+  log: Logger = logger
 ): Promise<void> {
-  try {
-    const { error } = await supabase
-      .from('api_request_logs')
-      .insert({
-        request_id: data.requestId,
-        api_key_id: data.apiKeyId,
-        professional_id: data.professionalId,
-        endpoint: data.endpoint,
-        method: data.method,
-        request_body: data.requestBody,
-        client_ip: data.clientIp,
-        response_status: data.responseStatus,
-        response_body: data.responseBody,
-        lead_id: data.leadId,
-        error_code: data.errorCode,
-        error_message: data.errorMessage,
-        processing_time_ms: data.processingTimeMs
-      });
-
-    if (error) {
-      console.error('Error logging request:', error);
+  const row = {
+    request_id: data.requestId,
+    api_key_id: data.apiKeyId,
+    professional_id: data.professionalId,
+    endpoint: data.endpoint,
+    method: data.method,
+    request_body: data.requestBody,
+    client_ip: data.clientIp,
+    idempotency_key: data.idempotencyKey,
+    is_replay: data.isReplay,
+    replay_of_request_id: data.replayOf,
+    response_status: data.responseStatus,
+    response_body: data.responseBody,
+    lead_id: data.leadId,
+    error_code: data.errorCode,
+    error_message: data.errorMessage,
+    processing_time_ms: data.processingTimeMs
+  };
+
+  let lastError: unknown = null;
+  for (let attempt = 1; attempt <= LOG_WRITE_ATTEMPTS; attempt++) {
+    try {
+      const { error } = await supabase.from('api_request_logs').insert(row);
+      if (!error) return;
+      lastError = error;
+    } catch (err) {
+      lastError = err;
     }
-  } catch (err) {
-    console.error('Failed to log request:', err);
   }
+
+  log.error('Failed to write request log', { request_id: data.requestId, error: lastError, log_entry: row });
 }
 
 /**
@@ -112,6 +176,7 @@ export async function logRequest(
  */
 export interface RequestContext {
   requestId: string;
+  traceId: string | null;
   startTime: number;
   apiKeyId: string | null;
   professionalId: string | null;
@@ -119,28 +184,71 @@ export interface RequestContext {
   method: string;
   requestBody: Record<string, unknown> | null;
   clientIp: string | null;
+  // Language of error messages in the response
+  language: Language;
+  idempotencyKey: string | null;
+  isReplay: boolean;
+  replayOf: string | null;
 }
 
 export function createRequestContext(
   req: Request,
   endpoint: string
 ): RequestContext {
-  return {
-    requestId: generateRequestId(),
+  const traceId = extractTraceId(req);
+
+  const context: RequestContext = {
+    requestId: resolveRequestId(req, traceId),
+    traceId,
     startTime: Date.now(),
     apiKeyId: null,
     professionalId: null,
     endpoint,
     method: req.method,
     requestBody: null,
-    clientIp: extractClientIp(req)
+    clientIp: extractClientIp(req),
+    language: resolveLanguage(req),
+    idempotencyKey: null,
+    isReplay: false,
+    replayOf: null
   };
+
+  // A caller's X-Request-Id that is not a UUID is replaced; log it so the caller's ID can still be traced
+  const incoming = req.headers.get('x-request-id')?.trim();
+  if (incoming && !UUID_REGEX.test(incoming)) {
+    getRequestLogger(context).warn('Ignoring X-Request-Id that is not a UUID', {
+      rejected_request_id: incoming.slice(0, MAX_LOGGED_REQUEST_ID_LENGTH)
+    });
+  }
+
+  return context;
 }
 
 /**
- * Finalize and log the request
+ * Logger whose lines carry the request's correlation and auth fields
  */
-export async function finalizeRequest(
+export function getRequestLogger(context: RequestContext): Logger {
+  return createLogger(() => ({
+    request_id: context.requestId,
+    trace_id: context.traceId,
+    api_key_id: context.apiKeyId,
+    professional_id: context.professionalId,
+    endpoint: context.endpoint
+  }));
+}
+
+/**
+ * Headers echoing the request ID, sent on every response
+ */
+export function getRequestIdHeaders(context: RequestContext): Record<string, string> {
+  return { 'X-Request-Id': context.requestId };
+}
+
+/**
+ * Finalize and log the request. The log row is written in the background,
+ * after the response is sent.
+ */
+export function finalizeRequest(
   supabase: SupabaseClient,
   context: RequestContext,
   response: {
@@ -150,22 +258,38 @@ export async function finalizeRequest(
     errorCode?: string | null;
     errorMessage?: string | null;
   }
-): Promise<void> {
+): void {
   const processingTimeMs = Date.now() - context.startTime;
 
-  await logRequest(supabase, {
-    requestId: context.requestId,
-    apiKeyId: context.apiKeyId,
-    professionalId: context.professionalId,
-    endpoint: context.endpoint,
+  const log = getRequestLogger(context);
+  const level: LogLevel = response.status >= 500 ? 'error' : response.status >= 400 ? 'warn' : 'info';
+  log[level]('Request completed', {
     method: context.method,
-    requestBody: sanitizeRequestBody(context.requestBody),
-    clientIp: context.clientIp,
-    responseStatus: response.status,
-    responseBody: response.body,
-    leadId: response.leadId || null,
-    errorCode: response.errorCode || null,
-    errorMessage: response.errorMessage || null,
-    processingTimeMs
+    status: response.status,
+    error_code: response.errorCode || null,
+    duration_ms: processingTimeMs
   });
+
+  // Bodies are redacted in the background too (hashing is asynchronous)
+  const entry = Promise.all([sanitizeRequestBody(context.requestBody), sanitizeResponseBody(response.body)])
+    .then(([requestBody, responseBody]) => logRequest(supabase, {
+      requestId: context.requestId,
+      apiKeyId: context.apiKeyId,
+      professionalId: context.professionalId,
+      endpoint: context.endpoint,
+      method: context.method,
+      requestBody,
+      clientIp: context.clientIp,
+      idempotencyKey: context.idempotencyKey,
+      isReplay: context.isReplay,
+      replayOf: context.replayOf,
+      responseStatus: response.status,
+      responseBody,
+      leadId: response.leadId || null,
+      errorCode: response.errorCode || null,
+      errorMessage: response.errorMessage || null,
+      processingTimeMs
+    }, log));
+
+  runInBackground(entry, 'request log', log);
 }
@@ -0,0 +1,52 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
+
+export interface AuthTokenValidationResult {
+  isValid: boolean;
+  professionalId?: string;
+  error?: string;
+  errorCode?: string;
+}
+
+/**
+ * Extract the app session token from the Authorization header
+ */
+export function extractAuthToken(req: Request): string | null {
+  const authHeader = req.headers.get('Authorization');
+  return authHeader?.replace('Bearer ', '') || null;
+}
+
+/**
+ * Validate an app session token against the auth_tokens table
+ */
+export async function validateAuthToken(
+  token: string,
+  supabase: SupabaseClient
+): Promise<AuthTokenValidationResult> {
+  const { data: tokenData, error: tokenError } = await supabase
+    .from('auth_tokens')
+    .select('professional_id, expires_at, is_active')
+    .eq('token', token)
+    .eq('is_active', true)
+    .single();
+
+  if (tokenError || !tokenData) {
+    return {
+      isValid: false,
+      error: 'Invalid or expired token',
+      errorCode: 'invalid_token'
+    };
+  }
+
+  if (new Date(tokenData.expires_at) < new Date()) {
+    return {
+      isValid: false,
+      error: 'Token has expired',
+      errorCode: 'expired_token'
+    };
+  }
+
+  return {
+    isValid: true,
+    professionalId: tokenData.professional_id
+  };
+}
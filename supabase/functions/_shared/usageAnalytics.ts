@@ -0,0 +1,146 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
+import { getKeyDisplay } from "./apiKeyAuth.ts";
+import { logger, Logger } from "./logger.ts";
+
+export type UsageGranularity = 'hour' | 'day';
+
+export interface UsageAnalyticsFilters {
+  from: string;
+  to: string;
+  granularity: UsageGranularity;
+  keyId?: string;
+}
+
+export interface UsageBucket {
+  start: string;
+  requests: number;
+  by_status: Record<string, number>;
+  errors: Record<string, number>;
+  p50_ms: number | null;
+  p95_ms: number | null;
+  leads_created: number;
+}
+
+export interface KeyUsage {
+  key_id: string;
+  name: string | null;
+  key_display: string;
+  totals: {
+    requests: number;
+    by_status: Record<string, number>;
+    errors: Record<string, number>;
+    leads_created: number;
+  };
+  buckets: UsageBucket[];
+}
+
+export const USAGE_GRANULARITIES: UsageGranularity[] = ['hour', 'day'];
+
+// Longest range a single query may cover, and the range used when none is given
+export const MAX_USAGE_RANGE_DAYS: Record<UsageGranularity, number> = { hour: 7, day: 366 };
+export const DEFAULT_USAGE_RANGE_DAYS: Record<UsageGranularity, number> = { hour: 1, day: 30 };
+
+/**
+ * Recompute rollups for every hourly and daily bucket overlapping [from, to)
+ */
+export async function rollupUsage(
+  supabase: SupabaseClient,
+  from: Date,
+  to: Date,
+  log: Logger = logger
+): Promise<number | null> {
+  const { data, error } = await supabase.rpc('rollup_api_usage', {
+    p_from: from.toISOString(),
+    p_to: to.toISOString()
+  });
+
+  if (error) {
+    log.error('Error rolling up API usage', { error });
+    return null;
+  }
+
+  return data as number;
+}
+
+/**
+ * Add the counts of one breakdown into another
+ */
+function mergeCounts(target: Record<string, number>, counts: Record<string, number>): void {
+  for (const [key, count] of Object.entries(counts || {})) {
+    target[key] = (target[key] || 0) + count;
+  }
+}
+
+/**
+ * Per-key usage for a professional, read from the rollup tables
+ */
+export async function getUsageAnalytics(
+  supabase: SupabaseClient,
+  professionalId: string,
+  filters: UsageAnalyticsFilters,
+  log: Logger = logger
+): Promise<{ keys: KeyUsage[]; error?: string }> {
+  let keysQuery = supabase
+    .from('api_keys')
+    .select('id, name, key_prefix, key_suffix')
+    .eq('professional_id', professionalId);
+
+  let rollupsQuery = supabase
+    .from('api_usage_rollups')
+    .select('api_key_id, bucket_start, request_count, status_counts, error_counts, p50_processing_ms, p95_processing_ms, leads_created')
+    .eq('professional_id', professionalId)
+    .eq('granularity', filters.granularity)
+    .gte('bucket_start', filters.from)
+    .lt('bucket_start', filters.to)
+    .order('bucket_start', { ascending: true });
+
+  if (filters.keyId) {
+    keysQuery = keysQuery.eq('id', filters.keyId);
+    rollupsQuery = rollupsQuery.eq('api_key_id', filters.keyId);
+  }
+
+  const [{ data: keys, error: keysError }, { data: rollups, error: rollupsError }] = await Promise.all([
+    keysQuery,
+    rollupsQuery
+  ]);
+
+  if (keysError || rollupsError) {
+    log.error('Error fetching usage analytics', { error: keysError || rollupsError });
+    return { keys: [], error: 'Failed to fetch usage analytics' };
+  }
+
+  const usageByKey = new Map<string, KeyUsage>();
+  for (const key of keys || []) {
+    usageByKey.set(key.id, {
+      key_id: key.id,
+      name: key.name,
+      key_display: getKeyDisplay(key.key_prefix, key.key_suffix),
+      totals: { requests: 0, by_status: {}, errors: {}, leads_created: 0 },
+      buckets: []
+    });
+  }
+
+  for (const rollup of rollups || []) {
+    const usage = usageByKey.get(rollup.api_key_id);
+    if (!usage) continue;
+
+    usage.buckets.push({
+      start: rollup.bucket_start,
+      requests: rollup.request_count,
+      by_status: rollup.status_counts,
+      errors: rollup.error_counts,
+      p50_ms: rollup.p50_processing_ms,
+      p95_ms: rollup.p95_processing_ms,
+      leads_created: rollup.leads_created
+    });
+
+    // Percentiles can't be combined across buckets, so totals only carry counts
+    usage.totals.requests += rollup.request_count;
+    usage.totals.leads_created += rollup.leads_created;
+    mergeCounts(usage.totals.by_status, rollup.status_counts);
+    mergeCounts(usage.totals.errors, rollup.error_counts);
+  }
+
+  // Keys without traffic in the range are left out
+  return { keys: [...usageByKey.values()].filter(usage => usage.buckets.length > 0) };
+}
@@ -0,0 +1,408 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
+import { isIpAddress, isIpInCidr } from "./ipAllowlist.ts";
+import { logger, Logger } from "./logger.ts";
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  secret: string;
+  is_active: boolean;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  event_type: string;
+  payload: Record<string, unknown>;
+  attempt_count: number;
+}
+
+// Resolves a hostname to its IP addresses
+export type ResolveHostFn = (hostname: string) => Promise<string[]>;
+
+export interface DeliveryOutcome {
+  deliveryId: string;
+  status: 'succeeded' | 'pending' | 'dead_letter';
+  responseStatus: number | null;
+  error: string | null;
+}
+
+// Events a professional can subscribe to
+export const WEBHOOK_EVENT_TYPES = [
+  'lead.created',
+  'lead.status_changed',
+  'lead.accepted',
+  'lead.closed',
+  'api_key.expiring'
+];
+
+// Retry policy: 30s, 1m, 2m, 4m, ... capped at 6h, dead-lettered after 8 attempts
+export const MAX_DELIVERY_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_SECONDS = 30;
+const MAX_RETRY_DELAY_SECONDS = 6 * 60 * 60;
+
+// Per-attempt HTTP timeout
+const DELIVERY_TIMEOUT_MS = 10000;
+
+// Keep stored response bodies small
+const MAX_STORED_RESPONSE_LENGTH = 2000;
+
+// A claimed delivery not finished within this time (crashed dispatcher) is claimed again
+const DELIVERY_LEASE_SECONDS = 15 * 60;
+
+// Addresses webhooks are never sent to: loopback, private networks, link-local (cloud metadata),
+// carrier-grade NAT, multicast and other special-purpose ranges.
+// IPv4-mapped IPv6 addresses are checked as IPv4.
+const BLOCKED_ADDRESS_RANGES = [
+  '0.0.0.0/8',
+  '10.0.0.0/8',
+  '100.64.0.0/10',
+  '127.0.0.0/8',
+  '169.254.0.0/16',
+  '172.16.0.0/12',
+  '192.0.0.0/24',
+  '192.0.2.0/24',
+  '192.168.0.0/16',
+  '198.18.0.0/15',
+  '198.51.100.0/24',
+  '203.0.113.0/24',
+  '224.0.0.0/4',
+  '240.0.0.0/4',
+  '::/128',
+  '::1/128',
+  '64:ff9b::/96',
+  '100::/64',
+  '2001:db8::/32',
+  '2002::/16',
+  'fc00::/7',
+  'fe80::/10',
+  'ff00::/8'
+];
+
+// Hostnames that only resolve inside a private network
+const LOCAL_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.home.arpa'];
+
+/**
+ * Generate a signing secret for a new endpoint
+ */
+export function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return `whsec_${Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')}`;
+}
+
+function allowInsecureUrls(): boolean {
+  return Deno.env.get('WEBHOOK_ALLOW_INSECURE_URLS') === 'true';
+}
+
+/**
+ * Check whether an address is in a range webhooks must not reach. Unparseable addresses are blocked.
+ */
+export function isBlockedAddress(ip: string): boolean {
+  return !isIpAddress(ip) || BLOCKED_ADDRESS_RANGES.some(range => isIpInCidr(ip, range));
+}
+
+/**
+ * Validate an endpoint URL without resolving it: HTTPS, not a local hostname and not a
+ * blocked IP address. Plain http and local addresses are only allowed when
+ * WEBHOOK_ALLOW_INSECURE_URLS is set (for testing against a local stand-in).
+ */
+export function isValidWebhookUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  if (allowInsecureUrls()) {
+    return parsed.protocol === 'https:' || parsed.protocol === 'http:';
+  }
+
+  const host = parsed.hostname.toLowerCase();
+  if (parsed.protocol !== 'https:' || parsed.username || parsed.password) {
+    return false;
+  }
+
+  if (isIpAddress(host)) {
+    return !isBlockedAddress(host);
+  }
+
+  return host !== 'localhost' &&
+    host.includes('.') &&
+    !LOCAL_HOST_SUFFIXES.some(suffix => host.endsWith(suffix));
+}
+
+/**
+ * IPv4 and IPv6 addresses of a hostname
+ */
+async function resolveHost(hostname: string): Promise<string[]> {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA')
+  ]);
+  return lookups.flatMap(lookup => lookup.status === 'fulfilled' ? lookup.value : []);
+}
+
+/**
+ * Check that webhooks may be sent to a URL: a valid URL whose host resolves only to public
+ * addresses. Returns the reason when they may not, otherwise null.
+ * Checked when an endpoint is registered and again before every delivery, as DNS records can change.
+ */
+export async function checkWebhookDestination(
+  url: string,
+  resolveFn: ResolveHostFn = resolveHost
+): Promise<string | null> {
+  if (!isValidWebhookUrl(url)) {
+    return 'url must be a public HTTPS URL';
+  }
+
+  const host = new URL(url).hostname;
+  if (allowInsecureUrls() || isIpAddress(host)) {
+    return null;
+  }
+
+  const addresses = await resolveFn(host);
+  if (addresses.length === 0) {
+    return `url host ${host} does not resolve`;
+  }
+
+  if (addresses.some(isBlockedAddress)) {
+    return `url host ${host} resolves to a private or reserved address`;
+  }
+
+  return null;
+}
+
+/**
+ * Sign a webhook payload: HMAC-SHA256 over "<timestamp>.<body>"
+ */
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Seconds to wait before the next attempt (exponential backoff)
+ */
+export function getRetryDelaySeconds(attemptCount: number): number {
+  return Math.min(BASE_RETRY_DELAY_SECONDS * Math.pow(2, attemptCount - 1), MAX_RETRY_DELAY_SECONDS);
+}
+
+/**
+ * Queue an event for every active endpoint of the professional subscribed to it.
+ * Lead events are queued by a database trigger; this is for events raised in edge functions.
+ */
+export async function enqueueWebhookEvent(
+  supabase: SupabaseClient,
+  professionalId: string,
+  eventType: string,
+  data: Record<string, unknown>,
+  log: Logger = logger
+): Promise<number> {
+  const { data: endpoints, error } = await supabase
+    .from('webhook_endpoints')
+    .select('id')
+    .eq('professional_id', professionalId)
+    .eq('is_active', true)
+    .contains('event_types', [eventType]);
+
+  if (error) {
+    log.error('Error fetching webhook endpoints', { error });
+    return 0;
+  }
+
+  if (!endpoints || endpoints.length === 0) {
+    return 0;
+  }
+
+  const { error: insertError } = await supabase
+    .from('webhook_deliveries')
+    .insert(endpoints.map((endpoint: { id: string }) => ({
+      endpoint_id: endpoint.id,
+      professional_id: professionalId,
+      event_type: eventType,
+      payload: { event: eventType, ...data }
+    })));
+
+  if (insertError) {
+    log.error('Error queueing webhook deliveries', { error: insertError });
+    return 0;
+  }
+
+  return endpoints.length;
+}
+
+/**
+ * Attempt a single delivery and record the outcome.
+ * `fetchFn` can be replaced to point deliveries at a local HTTP stand-in,
+ * and `resolveFn` to control how endpoint hostnames resolve.
+ */
+export async function deliverWebhook(
+  supabase: SupabaseClient,
+  delivery: WebhookDelivery,
+  endpoint: WebhookEndpoint,
+  fetchFn: typeof fetch = fetch,
+  resolveFn: ResolveHostFn = resolveHost,
+  log: Logger = logger
+): Promise<DeliveryOutcome> {
+  const attemptNumber = delivery.attempt_count + 1;
+  const timestamp = Math.floor(Date.now() / 1000);
+  const body = JSON.stringify({
+    delivery_id: delivery.id,
+    event: delivery.event_type,
+    timestamp,
+    data: delivery.payload
+  });
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+  const startTime = Date.now();
+
+  const destinationError = endpoint.is_active ? await checkWebhookDestination(endpoint.url, resolveFn) : null;
+
+  if (!endpoint.is_active) {
+    error = 'Endpoint is inactive';
+  } else if (destinationError) {
+    error = destinationError;
+  } else {
+    try {
+      const signature = await signWebhookPayload(endpoint.secret, timestamp, body);
+      const response = await fetchFn(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Ofair-Webhooks/1.0',
+          'X-Ofair-Event': delivery.event_type,
+          'X-Ofair-Delivery-Id': delivery.id,
+          'X-Ofair-Timestamp': String(timestamp),
+          'X-Ofair-Signature': `t=${timestamp},v1=${signature}`
+        },
+        body,
+        // Redirects are not followed: the target could be an internal address
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+      });
+
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, MAX_STORED_RESPONSE_LENGTH);
+
+      if (!response.ok) {
+        error = `Endpoint responded with status ${response.status}`;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : 'Unknown delivery error';
+    }
+  }
+
+  const durationMs = Date.now() - startTime;
+
+  // Record the attempt
+  const { error: attemptError } = await supabase
+    .from('webhook_delivery_attempts')
+    .insert({
+      delivery_id: delivery.id,
+      attempt_number: attemptNumber,
+      request_url: endpoint.url,
+      response_status: responseStatus,
+      response_body: responseBody,
+      error_message: error,
+      duration_ms: durationMs
+    });
+
+  if (attemptError) {
+    log.error('Error recording webhook attempt', { error: attemptError });
+  }
+
+  // Succeeded, retry later, or give up
+  let status: DeliveryOutcome['status'];
+  const now = new Date();
+  const update: Record<string, unknown> = {
+    attempt_count: attemptNumber,
+    last_attempt_at: now.toISOString(),
+    last_response_status: responseStatus,
+    last_error: error
+  };
+
+  if (!error) {
+    status = 'succeeded';
+    update.completed_at = now.toISOString();
+  } else if (attemptNumber >= MAX_DELIVERY_ATTEMPTS || !endpoint.is_active) {
+    status = 'dead_letter';
+    update.completed_at = now.toISOString();
+  } else {
+    status = 'pending';
+    update.next_attempt_at = new Date(now.getTime() + getRetryDelaySeconds(attemptNumber) * 1000).toISOString();
+  }
+  update.status = status;
+
+  const { error: updateError } = await supabase
+    .from('webhook_deliveries')
+    .update(update)
+    .eq('id', delivery.id);
+
+  if (updateError) {
+    log.error('Error updating webhook delivery', { error: updateError });
+  }
+
+  return { deliveryId: delivery.id, status, responseStatus, error };
+}
+
+/**
+ * Deliver all pending deliveries that are due. Deliveries are claimed atomically
+ * (status 'delivering'), so dispatcher runs that overlap never send the same delivery twice.
+ */
+export async function dispatchDueWebhooks(
+  supabase: SupabaseClient,
+  limit: number,
+  fetchFn: typeof fetch = fetch,
+  resolveFn: ResolveHostFn = resolveHost,
+  log: Logger = logger
+): Promise<DeliveryOutcome[]> {
+  const { data: deliveries, error } = await supabase.rpc('claim_webhook_deliveries', {
+    p_limit: limit,
+    p_lease_seconds: DELIVERY_LEASE_SECONDS
+  });
+
+  if (error) {
+    log.error('Error claiming due webhook deliveries', { error });
+    return [];
+  }
+
+  const claimed = (deliveries || []) as WebhookDelivery[];
+  if (claimed.length === 0) {
+    return [];
+  }
+
+  const { data: endpoints, error: endpointsError } = await supabase
+    .from('webhook_endpoints')
+    .select('id, url, secret, is_active')
+    .in('id', [...new Set(claimed.map(delivery => delivery.endpoint_id))]);
+
+  if (endpointsError) {
+    // Claimed deliveries are picked up again when their lease runs out
+    log.error('Error fetching webhook endpoints', { error: endpointsError });
+    return [];
+  }
+
+  const endpointsById = new Map(((endpoints || []) as WebhookEndpoint[]).map(endpoint => [endpoint.id, endpoint]));
+
+  const outcomes: DeliveryOutcome[] = [];
+  for (const delivery of claimed) {
+    const endpoint = endpointsById.get(delivery.endpoint_id);
+    // Deliveries of deleted endpoints are deleted with them
+    if (endpoint) {
+      outcomes.push(await deliverWebhook(supabase, delivery, endpoint, fetchFn, resolveFn, log));
+    }
+  }
+
+  return outcomes;
+}
@@ -1,113 +1,100 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
-import { corsHeaders } from "../_shared/cors.ts";
-import { generateApiKey } from "../_shared/apiKeyAuth.ts";
-
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  if (req.method !== 'POST') {
-    return new Response(
-      JSON.stringify({ error: 'Method not allowed' }),
-      { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
-  }
-
-  try {
-    const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
-    const supabase = createClient(supabaseUrl, supabaseKey);
-
-    // Extract auth token from Authorization header
-    const authHeader = req.headers.get('Authorization');
-    const token = authHeader?.replace('Bearer ', '');
-
-    if (!token) {
-      return new Response(
-        JSON.stringify({ error: 'Authorization token required' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Validate the token using existing auth_tokens table
-    const { data: tokenData, error: tokenError } = await supabase
-      .from('auth_tokens')
-      .select('professional_id, expires_at, is_active')
-      .eq('token', token)
-      .eq('is_active', true)
-      .single();
-
-    if (tokenError || !tokenData) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid or expired token' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+import {
+  generateApiKey,
+  findInvalidScope,
+  resolveKeyExpiry,
+  getKeyDisplay,
+  DEFAULT_API_KEY_SCOPES
+} from "../_shared/apiKeyAuth.ts";
+import { findInvalidCidr, MAX_ALLOWED_CIDRS } from "../_shared/ipAllowlist.ts";
+import { createHandler, errorResult } from "../_shared/pipeline.ts";
+
+serve(createHandler({
+  endpoint: '/create-api-key',
+  methods: ['POST'],
+  auth: 'token',
+  // No body or invalid JSON is ok, all fields are optional
+  body: 'optional'
+}, async (ctx) => {
+  const professionalId = ctx.professionalId!;
+  const body = ctx.body!;
+  const name = (body.name as string) || null;
+  const scopes = body.scopes;
+  const allowedCidrs = body.allowed_cidrs;
+
+  // Validate IP allowlist
+  if (allowedCidrs !== undefined) {
+    if (!Array.isArray(allowedCidrs) || allowedCidrs.length > MAX_ALLOWED_CIDRS) {
+      return errorResult(
+        400,
+        'validation_error',
+        `allowed_cidrs must be an array of at most ${MAX_ALLOWED_CIDRS} CIDR ranges`,
+        { field: 'allowed_cidrs' }
       );
     }
 
-    // Check if token is expired
-    if (new Date(tokenData.expires_at) < new Date()) {
-      return new Response(
-        JSON.stringify({ error: 'Token has expired' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    const invalidCidr = findInvalidCidr(allowedCidrs);
+    if (invalidCidr) {
+      return errorResult(400, 'validation_error', `Invalid CIDR range: ${invalidCidr}`, { field: 'allowed_cidrs' });
     }
+  }
 
-    const professionalId = tokenData.professional_id;
+  // Resolve requested expiry
+  const expiry = resolveKeyExpiry(body.expires_in_days, body.expires_at);
+  if ('error' in expiry) {
+    return errorResult(400, 'validation_error', expiry.error);
+  }
 
-    // Parse request body
-    let name: string | null = null;
-    try {
-      const body = await req.json();
-      name = body.name || null;
-    } catch {
-      // No body or invalid JSON is ok, name is optional
+  // Validate requested scopes
+  if (scopes !== undefined) {
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      return errorResult(400, 'validation_error', 'scopes must be a non-empty array', { field: 'scopes' });
     }
 
-    // Count existing active keys for this professional
-    const { count } = await supabase
-      .from('api_keys')
-      .select('*', { count: 'exact', head: true })
-      .eq('professional_id', professionalId)
-      .eq('is_active', true);
-
-    // Limit to 5 active keys per professional
-    if (count && count >= 5) {
-      return new Response(
-        JSON.stringify({ error: 'Maximum of 5 active API keys allowed. Please revoke an existing key first.' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    const invalidScope = findInvalidScope(scopes);
+    if (invalidScope) {
+      return errorResult(400, 'validation_error', `Unknown scope: ${invalidScope}`, { field: 'scopes' });
     }
+  }
 
-    // Generate new API key
-    const result = await generateApiKey(professionalId, name, supabase);
-
-    if ('error' in result) {
-      return new Response(
-        JSON.stringify({ error: result.error }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+  // Count existing active keys for this professional
+  const { count } = await ctx.supabase
+    .from('api_keys')
+    .select('*', { count: 'exact', head: true })
+    .eq('professional_id', professionalId)
+    .eq('is_active', true)
+    .is('rotated_at', null);
+
+  // Limit to 5 active keys per professional (rotated keys in their grace period don't count)
+  if (count && count >= 5) {
+    return errorResult(400, 'key_limit_reached', 'Maximum of 5 active API keys allowed. Please revoke an existing key first.');
+  }
 
-    return new Response(
-      JSON.stringify({
-        success: true,
-        api_key: result.fullKey,
-        key_id: result.keyId,
-        key_prefix: result.prefix,
-        name: name || `API Key ${new Date().toLocaleDateString('he-IL')}`,
-        message: 'Store this API key securely. It will not be shown again.'
-      }),
-      { status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+  // Generate new API key
+  const result = await generateApiKey(professionalId, name, ctx.supabase, {
+    scopes: scopes ? [...new Set(scopes as string[])] : DEFAULT_API_KEY_SCOPES,
+    expiresAt: expiry.expiresAt,
+    allowedCidrs: (allowedCidrs as string[] | undefined) || []
+  });
 
-  } catch (error) {
-    console.error('Error creating API key:', error);
-    return new Response(
-      JSON.stringify({ error: 'Internal server error' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+  if ('error' in result) {
+    return errorResult(result.errorCode === 'database_error' ? 500 : 400, result.errorCode, result.error);
   }
-});
+
+  return {
+    status: 201,
+    body: {
+      success: true,
+      api_key: result.fullKey,
+      key_id: result.keyId,
+      key_prefix: result.prefix,
+      key_display: getKeyDisplay(result.prefix, result.suffix),
+      key_fingerprint: result.fingerprint,
+      scopes: result.scopes,
+      expires_at: expiry.expiresAt,
+      allowed_cidrs: (allowedCidrs as string[] | undefined) || [],
+      name: name || `API Key ${new Date().toLocaleDateString('he-IL')}`,
+      message: 'Store this API key securely. It will not be shown again.'
+    }
+  };
+}));
@@ -0,0 +1,25 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { dispatchDueWebhooks } from "../_shared/webhooks.ts";
+import { createHandler } from "../_shared/pipeline.ts";
+
+// Maximum deliveries attempted per invocation
+const DISPATCH_BATCH_SIZE = 50;
+
+serve(createHandler({
+  endpoint: '/dispatch-webhooks',
+  methods: ['POST'],
+  auth: 'service_role'
+}, async (ctx) => {
+  const outcomes = await dispatchDueWebhooks(ctx.supabase, DISPATCH_BATCH_SIZE, fetch, undefined, ctx.logger);
+
+  return {
+    status: 200,
+    body: {
+      success: true,
+      attempted: outcomes.length,
+      succeeded: outcomes.filter(o => o.status === 'succeeded').length,
+      retrying: outcomes.filter(o => o.status === 'pending').length,
+      dead_lettered: outcomes.filter(o => o.status === 'dead_letter').length
+    }
+  };
+}));
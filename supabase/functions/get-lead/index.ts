@@ -0,0 +1,34 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { hasScope, SCOPE_LEADS_READ, SCOPE_LEADS_READ_CONTACT } from "../_shared/apiKeyAuth.ts";
+import { createHandler, errorResult } from "../_shared/pipeline.ts";
+import { getLeadById, formatLead, UUID_REGEX } from "../_shared/leadLookup.ts";
+
+serve(createHandler({
+  endpoint: '/get-lead',
+  methods: ['GET'],
+  auth: 'api_key',
+  scope: SCOPE_LEADS_READ
+}, async (ctx) => {
+  // Validate lead ID
+  const leadId = new URL(ctx.req.url).searchParams.get('lead_id');
+  if (!leadId || !UUID_REGEX.test(leadId)) {
+    return errorResult(400, 'validation_error', 'lead_id query parameter must be a valid UUID', { field: 'lead_id' });
+  }
+
+  const lead = await getLeadById(ctx.supabase, ctx.professionalId!, leadId);
+  if (!lead) {
+    return errorResult(404, 'lead_not_found', 'Lead not found');
+  }
+
+  // Client contact data is masked unless the key has the contact scope
+  const includeContact = hasScope(ctx.apiKey!, SCOPE_LEADS_READ_CONTACT);
+  return {
+    status: 200,
+    body: {
+      success: true,
+      lead: await formatLead(lead, includeContact)
+    },
+    // The lead itself is not written to the request log
+    logBody: { success: true, lead_id: leadId }
+  };
+}));
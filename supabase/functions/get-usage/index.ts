@@ -0,0 +1,40 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { SCOPE_USAGE_READ } from "../_shared/apiKeyAuth.ts";
+import { getRateLimitUsage } from "../_shared/rateLimiter.ts";
+import { createHandler } from "../_shared/pipeline.ts";
+import { getLeadQuotaUsage } from "../_shared/leadQuota.ts";
+
+serve(createHandler({
+  endpoint: '/get-usage',
+  methods: ['GET'],
+  auth: 'api_key',
+  scope: SCOPE_USAGE_READ
+}, async (ctx) => {
+  const rateLimitResult = ctx.rateLimit!;
+
+  // Lead quota is shared by all of the professional's keys
+  const quota = await getLeadQuotaUsage(ctx.supabase, ctx.professionalId!);
+  const quotaTier = (limit: number | null, used: number, reset: string) => ({
+    limit,
+    used,
+    remaining: limit === null ? null : Math.max(0, limit - used),
+    reset
+  });
+
+  // Consumption (including this request) against each configured limit
+  return {
+    status: 200,
+    body: {
+      success: true,
+      rate_limits: {
+        scope: rateLimitResult.scope,
+        ...getRateLimitUsage(rateLimitResult)
+      },
+      lead_quota: {
+        scope: quota.scope,
+        day: quotaTier(quota.limits.leads_per_day, quota.used.day, quota.reset.day),
+        month: quotaTier(quota.limits.leads_per_month, quota.used.month, quota.reset.month)
+      }
+    }
+  };
+}));
@@ -1,101 +1,76 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
-import { corsHeaders } from "../_shared/cors.ts";
+import { getExpiresInDays, getKeyDisplay, EXPIRING_SOON_DAYS } from "../_shared/apiKeyAuth.ts";
+import { createHandler, errorResult } from "../_shared/pipeline.ts";
 
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  if (req.method !== 'GET') {
-    return new Response(
-      JSON.stringify({ error: 'Method not allowed' }),
-      { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
-  }
+interface ApiKeyRow {
+  id: string;
+  key_prefix: string;
+  key_suffix: string | null;
+  key_fingerprint: string | null;
+  name: string;
+  scopes: string[];
+  allowed_cidrs: string[];
+  is_active: boolean;
+  created_at: string;
+  last_used_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  rotated_at: string | null;
+  replaced_by_key_id: string | null;
+}
 
-  try {
-    const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
-    const supabase = createClient(supabaseUrl, supabaseKey);
+serve(createHandler({
+  endpoint: '/list-api-keys',
+  methods: ['GET'],
+  auth: 'token'
+}, async (ctx) => {
+  // Optional filter: only active keys expiring within EXPIRING_SOON_DAYS
+  const expiringSoon = new URL(ctx.req.url).searchParams.get('expiring_soon') === 'true';
 
-    // Extract auth token from Authorization header
-    const authHeader = req.headers.get('Authorization');
-    const token = authHeader?.replace('Bearer ', '');
+  // Get all API keys for this professional (not showing the hash)
+  let query = ctx.supabase
+    .from('api_keys')
+    .select('id, key_prefix, key_suffix, key_fingerprint, name, scopes, allowed_cidrs, is_active, created_at, last_used_at, expires_at, revoked_at, rotated_at, replaced_by_key_id')
+    .eq('professional_id', ctx.professionalId!)
+    .order('created_at', { ascending: false });
 
-    if (!token) {
-      return new Response(
-        JSON.stringify({ error: 'Authorization token required' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Validate the token using existing auth_tokens table
-    const { data: tokenData, error: tokenError } = await supabase
-      .from('auth_tokens')
-      .select('professional_id, expires_at, is_active')
-      .eq('token', token)
+  if (expiringSoon) {
+    query = query
       .eq('is_active', true)
-      .single();
-
-    if (tokenError || !tokenData) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid or expired token' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+      .gt('expires_at', new Date().toISOString())
+      .lte('expires_at', new Date(Date.now() + EXPIRING_SOON_DAYS * 24 * 60 * 60 * 1000).toISOString());
+  }
 
-    // Check if token is expired
-    if (new Date(tokenData.expires_at) < new Date()) {
-      return new Response(
-        JSON.stringify({ error: 'Token has expired' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+  const { data: keys, error: keysError } = await query;
 
-    const professionalId = tokenData.professional_id;
+  if (keysError) {
+    ctx.logger.error('Error fetching API keys', { error: keysError });
+    return errorResult(500, 'database_error', 'Failed to fetch API keys');
+  }
 
-    // Get all API keys for this professional (not showing the hash)
-    const { data: keys, error: keysError } = await supabase
-      .from('api_keys')
-      .select('id, key_prefix, name, is_active, created_at, last_used_at, expires_at, revoked_at')
-      .eq('professional_id', professionalId)
-      .order('created_at', { ascending: false });
+  // Transform keys to include masked suffix (keys created before suffixes were stored show only the prefix)
+  const transformedKeys = (keys || []).map((key: ApiKeyRow) => ({
+    id: key.id,
+    key_display: getKeyDisplay(key.key_prefix, key.key_suffix),
+    key_fingerprint: key.key_fingerprint,
+    name: key.name,
+    scopes: key.scopes,
+    allowed_cidrs: key.allowed_cidrs,
+    is_active: key.is_active,
+    created_at: key.created_at,
+    last_used_at: key.last_used_at,
+    expires_at: key.expires_at,
+    expires_in_days: getExpiresInDays(key.expires_at),
+    revoked_at: key.revoked_at,
+    rotated_at: key.rotated_at,
+    replaced_by_key_id: key.replaced_by_key_id
+  }));
 
-    if (keysError) {
-      console.error('Error fetching API keys:', keysError);
-      return new Response(
-        JSON.stringify({ error: 'Failed to fetch API keys' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+  return {
+    status: 200,
+    body: {
+      success: true,
+      keys: transformedKeys
     }
-
-    // Transform keys to include masked suffix (we don't store suffix, so we just show prefix)
-    const transformedKeys = (keys || []).map(key => ({
-      id: key.id,
-      key_display: `${key.key_prefix}_****`,
-      name: key.name,
-      is_active: key.is_active,
-      created_at: key.created_at,
-      last_used_at: key.last_used_at,
-      expires_at: key.expires_at,
-      revoked_at: key.revoked_at
-    }));
-
-    return new Response(
-      JSON.stringify({
-        success: true,
-        keys: transformedKeys
-      }),
-      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
-
-  } catch (error) {
-    console.error('Error listing API keys:', error);
-    return new Response(
-      JSON.stringify({ error: 'Internal server error' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
-  }
-});
+  };
+}));
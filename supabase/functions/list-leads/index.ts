@@ -0,0 +1,60 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { hasScope, SCOPE_LEADS_READ, SCOPE_LEADS_READ_CONTACT } from "../_shared/apiKeyAuth.ts";
+import { createHandler, errorResult } from "../_shared/pipeline.ts";
+import { listLeads, formatLead, DEFAULT_LEAD_PAGE_SIZE, MAX_LEAD_PAGE_SIZE } from "../_shared/leadLookup.ts";
+
+serve(createHandler({
+  endpoint: '/list-leads',
+  methods: ['GET'],
+  auth: 'api_key',
+  scope: SCOPE_LEADS_READ
+}, async (ctx) => {
+  // Parse query filters
+  const params = new URL(ctx.req.url).searchParams;
+  const limitParam = params.get('limit');
+  const limit = limitParam ? Number(limitParam) : DEFAULT_LEAD_PAGE_SIZE;
+  const submittedBy = params.get('submitted_by') || 'professional';
+  const createdFrom = params.get('created_from') || undefined;
+  const createdTo = params.get('created_to') || undefined;
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LEAD_PAGE_SIZE) {
+    return errorResult(400, 'validation_error', `limit must be an integer between 1 and ${MAX_LEAD_PAGE_SIZE}`, { field: 'limit' });
+  }
+  if (submittedBy !== 'key' && submittedBy !== 'professional') {
+    return errorResult(400, 'validation_error', 'submitted_by must be one of: key, professional', { field: 'submitted_by' });
+  }
+  if (createdFrom && isNaN(Date.parse(createdFrom))) {
+    return errorResult(400, 'validation_error', 'created_from must be an ISO 8601 date', { field: 'created_from' });
+  }
+  if (createdTo && isNaN(Date.parse(createdTo))) {
+    return errorResult(400, 'validation_error', 'created_to must be an ISO 8601 date', { field: 'created_to' });
+  }
+
+  const result = await listLeads(ctx.supabase, ctx.professionalId!, ctx.request.apiKeyId!, {
+    status: params.get('status') || undefined,
+    createdFrom: createdFrom ? new Date(createdFrom).toISOString() : undefined,
+    createdTo: createdTo ? new Date(createdTo).toISOString() : undefined,
+    profession: params.get('profession') || undefined,
+    submittedBy,
+    cursor: params.get('cursor') || undefined,
+    limit
+  }, ctx.logger);
+
+  if (result.errorCode) {
+    const status = result.errorCode === 'database_error' ? 500 : 400;
+    return errorResult(status, result.errorCode, result.error!, { field: result.field });
+  }
+
+  // Client contact data is masked unless the key has the contact scope
+  const includeContact = hasScope(ctx.apiKey!, SCOPE_LEADS_READ_CONTACT);
+  return {
+    status: 200,
+    body: {
+      success: true,
+      leads: await Promise.all(result.leads.map(lead => formatLead(lead, includeContact))),
+      next_cursor: result.nextCursor
+    },
+    // The leads themselves are not written to the request log
+    logBody: { success: true, count: result.leads.length }
+  };
+}));
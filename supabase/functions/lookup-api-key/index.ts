@@ -0,0 +1,47 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { findApiKeyByValue, getKeyDisplay, getExpiresInDays } from "../_shared/apiKeyAuth.ts";
+import { createHandler, errorResult } from "../_shared/pipeline.ts";
+
+serve(createHandler({
+  endpoint: '/lookup-api-key',
+  methods: ['POST'],
+  auth: 'token',
+  body: 'required'
+}, async (ctx) => {
+  // The key is sent in the body so it never appears in URLs or access logs
+  const apiKey = ctx.body!.api_key;
+
+  if (!apiKey || typeof apiKey !== 'string') {
+    return errorResult(400, 'validation_error', 'api_key is required', { field: 'api_key' });
+  }
+
+  // Keys of other professionals are reported as not found
+  const key = await findApiKeyByValue(apiKey, ctx.supabase);
+
+  if (!key || key.professional_id !== ctx.professionalId) {
+    return errorResult(404, 'api_key_not_found', 'API key not found');
+  }
+
+  return {
+    status: 200,
+    body: {
+      success: true,
+      key: {
+        id: key.id,
+        key_display: getKeyDisplay(key.key_prefix as string, key.key_suffix as string | null),
+        key_fingerprint: key.key_fingerprint,
+        name: key.name,
+        scopes: key.scopes,
+        allowed_cidrs: key.allowed_cidrs,
+        is_active: key.is_active,
+        created_at: key.created_at,
+        last_used_at: key.last_used_at,
+        expires_at: key.expires_at,
+        expires_in_days: getExpiresInDays(key.expires_at as string | null),
+        revoked_at: key.revoked_at,
+        rotated_at: key.rotated_at,
+        replaced_by_key_id: key.replaced_by_key_id
+      }
+    }
+  };
+}));
@@ -0,0 +1,176 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { SCOPE_WEBHOOKS_MANAGE } from "../_shared/apiKeyAuth.ts";
+import { createHandler, errorResult, HandlerContext, HandlerResult, isJsonObject } from "../_shared/pipeline.ts";
+import { UUID_REGEX } from "../_shared/leadLookup.ts";
+import { WEBHOOK_EVENT_TYPES, generateWebhookSecret, checkWebhookDestination } from "../_shared/webhooks.ts";
+
+// Maximum active webhook endpoints per professional
+const MAX_ENDPOINTS_PER_PROFESSIONAL = 10;
+
+// Length of the description column (VARCHAR(255))
+const MAX_DESCRIPTION_LENGTH = 255;
+
+/**
+ * List the professional's active endpoints
+ */
+async function listEndpoints(ctx: HandlerContext): Promise<HandlerResult> {
+  const { data: endpoints, error: listError } = await ctx.supabase
+    .from('webhook_endpoints')
+    .select('id, url, event_types, description, is_active, created_at, updated_at')
+    .eq('professional_id', ctx.professionalId!)
+    .eq('is_active', true)
+    .order('created_at', { ascending: false });
+
+  if (listError) {
+    throw listError;
+  }
+
+  return {
+    status: 200,
+    body: { success: true, endpoints: endpoints || [] },
+    logBody: { success: true, count: (endpoints || []).length }
+  };
+}
+
+/**
+ * Remove an endpoint
+ */
+async function removeEndpoint(ctx: HandlerContext): Promise<HandlerResult> {
+  const endpointId = new URL(ctx.req.url).searchParams.get('endpoint_id');
+  if (!endpointId || !UUID_REGEX.test(endpointId)) {
+    return errorResult(400, 'validation_error', 'endpoint_id query parameter must be a valid UUID', { field: 'endpoint_id' });
+  }
+
+  const { data: removed, error: removeError } = await ctx.supabase
+    .from('webhook_endpoints')
+    .update({ is_active: false, updated_at: new Date().toISOString() })
+    .eq('id', endpointId)
+    .eq('professional_id', ctx.professionalId!)
+    .eq('is_active', true)
+    .select('id');
+
+  if (removeError) {
+    throw removeError;
+  }
+
+  if (!removed || removed.length === 0) {
+    return errorResult(404, 'webhook_not_found', 'Webhook endpoint not found');
+  }
+
+  return { status: 200, body: { success: true, message: 'Webhook endpoint removed' } };
+}
+
+/**
+ * Register an endpoint
+ */
+async function registerEndpoint(ctx: HandlerContext): Promise<HandlerResult> {
+  // Only POST has a body, so it is parsed here rather than by the pipeline
+  let parsed: unknown;
+  try {
+    parsed = await ctx.req.json();
+  } catch {
+    return errorResult(400, 'invalid_json', 'Request body must be valid JSON');
+  }
+
+  if (!isJsonObject(parsed)) {
+    return errorResult(400, 'invalid_json', 'Request body must be a JSON object');
+  }
+
+  ctx.request.requestBody = parsed;
+  const requestBody = parsed as { url?: string; event_types?: string[]; description?: string };
+
+  // The URL must be public and its host must resolve to public addresses only
+  const destinationError = typeof requestBody.url === 'string'
+    ? await checkWebhookDestination(requestBody.url)
+    : 'url must be a public HTTPS URL';
+
+  if (destinationError) {
+    return errorResult(400, 'validation_error', destinationError, { field: 'url' });
+  }
+
+  if (
+    !Array.isArray(requestBody.event_types) ||
+    requestBody.event_types.length === 0 ||
+    !requestBody.event_types.every(type => WEBHOOK_EVENT_TYPES.includes(type))
+  ) {
+    return errorResult(
+      400,
+      'validation_error',
+      `event_types must be a non-empty array of: ${WEBHOOK_EVENT_TYPES.join(', ')}`,
+      { field: 'event_types' }
+    );
+  }
+
+  const description = requestBody.description;
+  if (
+    description !== undefined && description !== null &&
+    (typeof description !== 'string' || [...description].length > MAX_DESCRIPTION_LENGTH)
+  ) {
+    return errorResult(
+      400,
+      'validation_error',
+      `description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters`,
+      { field: 'description' }
+    );
+  }
+
+  // Limit active endpoints per professional
+  const { count } = await ctx.supabase
+    .from('webhook_endpoints')
+    .select('*', { count: 'exact', head: true })
+    .eq('professional_id', ctx.professionalId!)
+    .eq('is_active', true);
+
+  if (count && count >= MAX_ENDPOINTS_PER_PROFESSIONAL) {
+    return errorResult(
+      400,
+      'webhook_limit_reached',
+      `Maximum of ${MAX_ENDPOINTS_PER_PROFESSIONAL} webhook endpoints allowed. Please remove an existing endpoint first.`
+    );
+  }
+
+  const secret = generateWebhookSecret();
+  const { data: endpoint, error: insertError } = await ctx.supabase
+    .from('webhook_endpoints')
+    .insert({
+      professional_id: ctx.professionalId!,
+      api_key_id: ctx.request.apiKeyId!,
+      url: requestBody.url,
+      event_types: [...new Set(requestBody.event_types)],
+      secret,
+      description: description || null
+    })
+    .select('id, url, event_types, description, is_active, created_at')
+    .single();
+
+  if (insertError) {
+    throw insertError;
+  }
+
+  return {
+    status: 201,
+    body: {
+      success: true,
+      endpoint,
+      secret,
+      message: 'Store this signing secret securely. It will not be shown again.'
+    },
+    // The signing secret is not written to the request log
+    logBody: { success: true, endpoint }
+  };
+}
+
+serve(createHandler({
+  endpoint: '/manage-webhooks',
+  methods: ['GET', 'POST', 'DELETE'],
+  auth: 'api_key',
+  scope: SCOPE_WEBHOOKS_MANAGE
+}, (ctx) => {
+  if (ctx.req.method === 'GET') {
+    return listEndpoints(ctx);
+  }
+  if (ctx.req.method === 'DELETE') {
+    return removeEndpoint(ctx);
+  }
+  return registerEndpoint(ctx);
+}));
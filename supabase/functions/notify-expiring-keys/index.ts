@@ -0,0 +1,101 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { getExpiresInDays, EXPIRING_SOON_DAYS } from "../_shared/apiKeyAuth.ts";
+import { enqueueWebhookEvent } from "../_shared/webhooks.ts";
+import { createHandler, errorResult } from "../_shared/pipeline.ts";
+
+// Upper bound for the look-ahead window
+const MAX_NOTIFY_DAYS = 90;
+
+interface ExpiringKey {
+  id: string;
+  professional_id: string;
+  name: string;
+  expires_at: string;
+}
+
+serve(createHandler({
+  endpoint: '/notify-expiring-keys',
+  methods: ['POST'],
+  auth: 'service_role',
+  // No body is ok, use the default window
+  body: 'optional'
+}, async (ctx) => {
+  // Look-ahead window in days (body "days", default EXPIRING_SOON_DAYS)
+  const days = ctx.body!.days ?? EXPIRING_SOON_DAYS;
+
+  if (typeof days !== 'number' || !Number.isInteger(days) || days < 1 || days > MAX_NOTIFY_DAYS) {
+    return errorResult(400, 'validation_error', `days must be an integer between 1 and ${MAX_NOTIFY_DAYS}`, { field: 'days' });
+  }
+
+  // Active keys expiring within the window that haven't been notified yet.
+  // Rotated keys are skipped: their expiry is the planned end of the grace period.
+  const now = new Date();
+  const { data: keys, error: keysError } = await ctx.supabase
+    .from('api_keys')
+    .select('id, professional_id, name, expires_at')
+    .eq('is_active', true)
+    .is('revoked_at', null)
+    .is('rotated_at', null)
+    .is('expiry_notified_at', null)
+    .gt('expires_at', now.toISOString())
+    .lte('expires_at', new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString());
+
+  if (keysError) {
+    ctx.logger.error('Error fetching expiring API keys', { error: keysError });
+    return errorResult(500, 'database_error', 'Failed to fetch expiring API keys');
+  }
+
+  // Group keys by professional: one notification per professional
+  const keysByProfessional = new Map<string, ExpiringKey[]>();
+  for (const key of (keys || []) as ExpiringKey[]) {
+    const group = keysByProfessional.get(key.professional_id) || [];
+    group.push(key);
+    keysByProfessional.set(key.professional_id, group);
+  }
+
+  let notificationCount = 0;
+  let webhookCount = 0;
+
+  for (const [professionalId, professionalKeys] of keysByProfessional) {
+    const payload = {
+      keys: professionalKeys.map(key => ({
+        id: key.id,
+        name: key.name,
+        expires_at: key.expires_at,
+        expires_in_days: getExpiresInDays(key.expires_at)
+      }))
+    };
+
+    const { error: notificationError } = await ctx.supabase
+      .from('api_key_notifications')
+      .insert({
+        professional_id: professionalId,
+        notification_type: 'api_key.expiring',
+        payload
+      });
+
+    if (notificationError) {
+      ctx.logger.error('Error creating expiry notification', { error: notificationError });
+      continue;
+    }
+
+    notificationCount++;
+    webhookCount += await enqueueWebhookEvent(ctx.supabase, professionalId, 'api_key.expiring', payload, ctx.logger);
+
+    await ctx.supabase
+      .from('api_keys')
+      .update({ expiry_notified_at: now.toISOString() })
+      .in('id', professionalKeys.map(key => key.id));
+  }
+
+  return {
+    status: 200,
+    body: {
+      success: true,
+      days,
+      expiring_keys: (keys || []).length,
+      notifications_created: notificationCount,
+      webhooks_queued: webhookCount
+    }
+  };
+}));
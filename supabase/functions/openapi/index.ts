@@ -0,0 +1,30 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { buildOpenApiDocument } from "../_shared/openapi.ts";
+import { createRequestContext, getRequestIdHeaders } from "../_shared/requestLogger.ts";
+
+serve((req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Not built with createHandler, which would add a request_id to the document itself
+  const request = createRequestContext(req, '/openapi');
+  const responseHeaders = { ...corsHeaders, ...getRequestIdHeaders(request) };
+
+  if (req.method !== 'GET') {
+    return new Response(
+      JSON.stringify({ error: 'method_not_allowed', message: 'Only GET requests are allowed', request_id: request.requestId }),
+      { status: 405, headers: { ...responseHeaders, 'Content-Type': 'application/json', 'Allow': 'GET' } }
+    );
+  }
+
+  // Public document, no authentication required
+  const serverUrl = `${Deno.env.get('SUPABASE_URL') || ''}/functions/v1`;
+
+  return new Response(
+    JSON.stringify(buildOpenApiDocument(serverUrl), null, 2),
+    { status: 200, headers: { ...responseHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'public, max-age=300' } }
+  );
+});
@@ -0,0 +1,108 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import {
+  purgeRequestLogs,
+  eraseClientPhoneFromLogs,
+  getRetentionDefaults,
+  toNationalDigits,
+  DEFAULT_PURGE_BATCH_SIZE,
+  MAX_PURGE_BATCH_SIZE
+} from "../_shared/logRetention.ts";
+import { createHandler, errorResult, HandlerContext, HandlerResult } from "../_shared/pipeline.ts";
+
+/**
+ * Erasure request: scrub every log row that may contain this client's phone
+ */
+async function forgetClientPhone(ctx: HandlerContext, dryRun: boolean): Promise<HandlerResult> {
+  const phone = ctx.body!.forget_client_phone;
+  if (typeof phone !== 'string' || toNationalDigits(phone).length < 9) {
+    return errorResult(400, 'validation_error', 'forget_client_phone must be a phone number', { field: 'forget_client_phone' });
+  }
+
+  const report = await eraseClientPhoneFromLogs(ctx.supabase, phone, dryRun, ctx.logger);
+  if (!report) {
+    return errorResult(500, 'database_error', 'Failed to erase client phone from logs');
+  }
+
+  return {
+    status: 200,
+    body: {
+      success: true,
+      action: 'forget_client_phone',
+      dry_run: dryRun,
+      matched: report.matched,
+      scrubbed: report.scrubbed,
+      // At most 100 request IDs are listed
+      request_ids: report.requestIds
+    }
+  };
+}
+
+serve(createHandler({
+  endpoint: '/purge-request-logs',
+  methods: ['POST'],
+  auth: 'service_role',
+  // No body is ok, run with the defaults
+  body: 'optional'
+}, async (ctx) => {
+  // Options from the body, falling back to the environment defaults
+  const body = ctx.body!;
+  const dryRun = body.dry_run === true;
+
+  if (body.forget_client_phone !== undefined) {
+    return forgetClientPhone(ctx, dryRun);
+  }
+
+  const defaults = getRetentionDefaults();
+  const retentionDays = body.retention_days ?? defaults.retentionDays;
+  const piiRetentionDays = body.pii_retention_days ?? defaults.piiRetentionDays;
+  const archive = body.archive ?? defaults.archive;
+  const batchSize = body.batch_size ?? DEFAULT_PURGE_BATCH_SIZE;
+
+  if (
+    typeof retentionDays !== 'number' || !Number.isInteger(retentionDays) || retentionDays < 1 ||
+    typeof piiRetentionDays !== 'number' || !Number.isInteger(piiRetentionDays) || piiRetentionDays < 1
+  ) {
+    return errorResult(400, 'validation_error', 'retention_days and pii_retention_days must be positive integers');
+  }
+
+  if (piiRetentionDays > retentionDays) {
+    return errorResult(400, 'validation_error', 'pii_retention_days cannot be longer than retention_days', {
+      field: 'pii_retention_days'
+    });
+  }
+
+  if (typeof batchSize !== 'number' || !Number.isInteger(batchSize) || batchSize < 1 || batchSize > MAX_PURGE_BATCH_SIZE) {
+    return errorResult(400, 'validation_error', `batch_size must be an integer between 1 and ${MAX_PURGE_BATCH_SIZE}`, {
+      field: 'batch_size'
+    });
+  }
+
+  const report = await purgeRequestLogs(ctx.supabase, {
+    retentionDays,
+    piiRetentionDays,
+    archive: archive === true,
+    dryRun,
+    batchSize
+  }, ctx.logger);
+
+  if (!report) {
+    return errorResult(500, 'database_error', 'Failed to purge request logs');
+  }
+
+  // In a dry run the counts are what a real run would process
+  return {
+    status: 200,
+    body: {
+      success: true,
+      action: 'retention',
+      dry_run: dryRun,
+      retention_days: retentionDays,
+      pii_retention_days: piiRetentionDays,
+      archive: archive === true,
+      pii_scrubbed: report.piiScrubbed,
+      pii_pending: report.piiPending,
+      [archive === true ? 'archived' : 'deleted']: report.expired,
+      expired_pending: report.expiredPending
+    }
+  };
+}));
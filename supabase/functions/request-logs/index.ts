@@ -0,0 +1,239 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { UUID_REGEX } from "../_shared/leadLookup.ts";
+import { finalizeRequest, getLogRedactionPolicy } from "../_shared/requestLogger.ts";
+import { hasScope, SCOPE_LEADS_WRITE, validateApiKeyById } from "../_shared/apiKeyAuth.ts";
+import { checkRateLimit, getRateLimitHeaders } from "../_shared/rateLimiter.ts";
+import { findRedactedFields } from "../_shared/redaction.ts";
+import { submitLead, LeadSubmissionRequest } from "../_shared/leadSubmission.ts";
+import { createHandler, errorResult, HandlerContext, HandlerResult, isJsonObject } from "../_shared/pipeline.ts";
+import {
+  searchRequestLogs,
+  getRequestLog,
+  claimReplay,
+  completeReplay,
+  releaseReplay,
+  DEFAULT_LOG_PAGE_SIZE,
+  MAX_LOG_PAGE_SIZE,
+  REPLAYABLE_ENDPOINTS
+} from "../_shared/requestLogSearch.ts";
+
+/**
+ * GET: search logs
+ */
+async function searchLogs(ctx: HandlerContext): Promise<HandlerResult> {
+  const params = new URL(ctx.req.url).searchParams;
+
+  const requestId = params.get('request_id') || undefined;
+  if (requestId && !UUID_REGEX.test(requestId)) {
+    return errorResult(400, 'validation_error', 'request_id must be a valid UUID', { field: 'request_id' });
+  }
+
+  const statusParam = params.get('status');
+  const status = statusParam ? Number(statusParam) : undefined;
+  if (status !== undefined && (!Number.isInteger(status) || status < 100 || status > 599)) {
+    return errorResult(400, 'validation_error', 'status must be an HTTP status code', { field: 'status' });
+  }
+
+  const createdFrom = params.get('from') || undefined;
+  const createdTo = params.get('to') || undefined;
+  if ((createdFrom && isNaN(Date.parse(createdFrom))) || (createdTo && isNaN(Date.parse(createdTo)))) {
+    return errorResult(400, 'validation_error', 'from and to must be valid ISO 8601 dates', {
+      field: createdFrom && isNaN(Date.parse(createdFrom)) ? 'from' : 'to'
+    });
+  }
+
+  const limit = Number(params.get('limit') || DEFAULT_LOG_PAGE_SIZE);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LOG_PAGE_SIZE) {
+    return errorResult(400, 'validation_error', `limit must be an integer between 1 and ${MAX_LOG_PAGE_SIZE}`, { field: 'limit' });
+  }
+
+  const result = await searchRequestLogs(ctx.supabase, ctx.professionalId!, {
+    requestId,
+    errorCode: params.get('error_code') || undefined,
+    status,
+    createdFrom: createdFrom ? new Date(createdFrom).toISOString() : undefined,
+    createdTo: createdTo ? new Date(createdTo).toISOString() : undefined,
+    cursor: params.get('cursor') || undefined,
+    limit
+  }, ctx.logger);
+
+  if (result.error) {
+    return errorResult(result.errorCode === 'invalid_cursor' ? 400 : 500, result.errorCode!, result.error, { field: result.field });
+  }
+
+  return {
+    status: 200,
+    body: {
+      success: true,
+      logs: result.logs,
+      next_cursor: result.nextCursor
+    }
+  };
+}
+
+/**
+ * POST: replay a failed lead submission, with corrected fields
+ */
+async function replayRequest(ctx: HandlerContext): Promise<HandlerResult> {
+  // Only POST has a body, so it is parsed here rather than by the pipeline
+  let body: unknown;
+  try {
+    body = await ctx.req.json();
+  } catch {
+    return errorResult(400, 'invalid_json', 'Request body must be valid JSON');
+  }
+
+  if (!isJsonObject(body)) {
+    return errorResult(400, 'invalid_json', 'Request body must be a JSON object');
+  }
+
+  const originalRequestId = body.request_id;
+  const overrides = body.overrides as Record<string, unknown> | undefined;
+
+  if (!originalRequestId || typeof originalRequestId !== 'string' || !UUID_REGEX.test(originalRequestId)) {
+    return errorResult(400, 'validation_error', 'request_id must be a valid UUID', { field: 'request_id' });
+  }
+
+  if (overrides !== undefined && (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides))) {
+    return errorResult(400, 'validation_error', 'overrides must be an object of lead fields', { field: 'overrides' });
+  }
+
+  const professionalId = ctx.professionalId!;
+  const log = await getRequestLog(ctx.supabase, professionalId, originalRequestId);
+  if (!log) {
+    return errorResult(404, 'request_log_not_found', 'Request log not found');
+  }
+
+  if (!REPLAYABLE_ENDPOINTS.includes(log.endpoint as string) || (log.response_status as number) < 400 || !log.request_body) {
+    return errorResult(400, 'request_not_replayable', `Only failed requests to ${REPLAYABLE_ENDPOINTS.join(', ')} can be replayed`);
+  }
+
+  if (!log.api_key_id) {
+    return errorResult(400, 'request_not_replayable', 'Only requests authenticated with an API key can be replayed');
+  }
+
+  // Logged bodies are redacted (masked phone and name, truncated description, ...),
+  // so the real values of redacted fields have to be provided again
+  const loggedBody = log.request_body as Record<string, unknown>;
+  const missingFields = findRedactedFields(loggedBody, getLogRedactionPolicy())
+    .filter(field => !overrides || !(field in overrides));
+  if (missingFields.length > 0) {
+    return errorResult(400, 'redacted_fields_required', `Redacted in the log, provide in overrides: ${missingFields.join(', ')}`, {
+      fields: missingFields
+    });
+  }
+
+  const leadRequest = { ...loggedBody, ...(overrides || {}) } as unknown as LeadSubmissionRequest;
+
+  // From here on the replay is logged as a new request linked to the original one
+  ctx.request.endpoint = '/request-logs/replay';
+  ctx.request.apiKeyId = log.api_key_id as string;
+  ctx.request.requestBody = leadRequest as unknown as Record<string, unknown>;
+  ctx.request.replayOf = originalRequestId;
+
+  let result: HandlerResult;
+  try {
+    result = await submitReplay(ctx, originalRequestId, leadRequest);
+  } catch (error) {
+    ctx.logger.error('Unexpected error', { error });
+    result = {
+      ...errorResult(500, 'internal_error', 'An unexpected error occurred'),
+      errorMessage: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+
+  result.body = { ...result.body, request_id: ctx.request.requestId, replay_of_request_id: originalRequestId };
+  finalizeRequest(ctx.supabase, ctx.request, {
+    status: result.status,
+    body: result.body,
+    leadId: result.leadId,
+    errorCode: result.errorCode,
+    errorMessage: result.errorMessage
+  });
+  return result;
+}
+
+/**
+ * Submit the replayed lead on behalf of the original API key
+ */
+async function submitReplay(
+  ctx: HandlerContext,
+  originalRequestId: string,
+  leadRequest: LeadSubmissionRequest
+): Promise<HandlerResult> {
+  const professionalId = ctx.professionalId!;
+  const apiKeyId = ctx.request.apiKeyId!;
+
+  // The lead is created on behalf of the original key, so the key must still be allowed to create it now
+  const keyValidation = await validateApiKeyById(apiKeyId, ctx.supabase, ctx.request.clientIp, ctx.logger);
+  if (!keyValidation.isValid || keyValidation.professionalId !== professionalId) {
+    const status = keyValidation.errorCode === 'ip_not_allowed' ? 403 : 401;
+    return errorResult(status, keyValidation.errorCode || 'invalid_api_key', keyValidation.error || 'Invalid API key');
+  }
+
+  if (!hasScope(keyValidation, SCOPE_LEADS_WRITE)) {
+    return errorResult(403, 'insufficient_scope', `API key is missing the required scope: ${SCOPE_LEADS_WRITE}`, {
+      required_scope: SCOPE_LEADS_WRITE
+    });
+  }
+
+  const rateLimit = await checkRateLimit(ctx.supabase, apiKeyId, professionalId, 1, ctx.logger);
+  Object.assign(ctx.headers, getRateLimitHeaders(rateLimit));
+  if (!rateLimit.allowed) {
+    return errorResult(429, rateLimit.errorCode!, 'Rate limit exceeded. Please wait before making more requests.', {
+      retry_after: rateLimit.retryAfter
+    }, { 'Retry-After': String(rateLimit.retryAfter) });
+  }
+
+  // A request is replayed at most once successfully, so retries can't create duplicate leads
+  const replayClaim = await claimReplay(ctx.supabase, professionalId, originalRequestId, ctx.request.requestId, ctx.logger);
+  if (replayClaim.status === 'replayed') {
+    return errorResult(409, 'request_already_replayed', 'Request was already replayed', {
+      replay_request_id: replayClaim.claim!.replay_request_id,
+      lead_id: replayClaim.claim!.lead_id
+    });
+  }
+  if (replayClaim.status === 'in_progress') {
+    return errorResult(409, 'replay_in_progress', 'A replay of this request is still being processed');
+  }
+  const claimId = replayClaim.claim!.id;
+
+  let result;
+  try {
+    result = await submitLead(ctx.supabase, professionalId, leadRequest, apiKeyId, ctx.logger);
+  } catch (error) {
+    await releaseReplay(ctx.supabase, claimId, ctx.logger);
+    throw error;
+  }
+
+  if (!result.success) {
+    // Failed replays don't consume the claim, so the request can be corrected and replayed again
+    await releaseReplay(ctx.supabase, claimId, ctx.logger);
+
+    const status = result.errorCode === 'quota_exceeded' ? 403 : 400;
+    return errorResult(status, result.errorCode!, result.error!, {
+      field: result.field,
+      errors: result.errors,
+      reset_at: result.resetAt
+    });
+  }
+
+  await completeReplay(ctx.supabase, claimId, result.leadId!, ctx.logger);
+
+  return {
+    status: 201,
+    body: {
+      success: true,
+      lead_id: result.leadId,
+      client_phone: result.clientPhone,
+      client_phone_e164: result.clientPhoneE164
+    },
+    leadId: result.leadId
+  };
+}
+
+serve(createHandler({
+  endpoint: '/request-logs',
+  methods: ['GET', 'POST'],
+  auth: 'token'
+}, (ctx) => ctx.req.method === 'GET' ? searchLogs(ctx) : replayRequest(ctx)));
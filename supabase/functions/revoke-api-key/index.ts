@@ -1,141 +1,57 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
-import { corsHeaders } from "../_shared/cors.ts";
-
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  if (req.method !== 'POST') {
-    return new Response(
-      JSON.stringify({ error: 'Method not allowed' }),
-      { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+import { createHandler, errorResult } from "../_shared/pipeline.ts";
+
+serve(createHandler({
+  endpoint: '/revoke-api-key',
+  methods: ['POST'],
+  auth: 'token',
+  body: 'required'
+}, async (ctx) => {
+  const keyId = ctx.body!.key_id as string | undefined;
+
+  if (!keyId) {
+    return errorResult(400, 'validation_error', 'key_id is required', { field: 'key_id' });
   }
 
-  try {
-    const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
-    const supabase = createClient(supabaseUrl, supabaseKey);
-
-    // Extract auth token from Authorization header
-    const authHeader = req.headers.get('Authorization');
-    const token = authHeader?.replace('Bearer ', '');
-
-    if (!token) {
-      return new Response(
-        JSON.stringify({ error: 'Authorization token required' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Validate the token using existing auth_tokens table
-    const { data: tokenData, error: tokenError } = await supabase
-      .from('auth_tokens')
-      .select('professional_id, expires_at, is_active')
-      .eq('token', token)
-      .eq('is_active', true)
-      .single();
-
-    if (tokenError || !tokenData) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid or expired token' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Check if token is expired
-    if (new Date(tokenData.expires_at) < new Date()) {
-      return new Response(
-        JSON.stringify({ error: 'Token has expired' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const professionalId = tokenData.professional_id;
-
-    // Parse request body
-    let keyId: string;
-    let reason: string | null = null;
-    try {
-      const body = await req.json();
-      keyId = body.key_id;
-      reason = body.reason || null;
-    } catch {
-      return new Response(
-        JSON.stringify({ error: 'Invalid request body. key_id is required.' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+  // Verify the key belongs to this professional
+  const { data: keyData, error: keyError } = await ctx.supabase
+    .from('api_keys')
+    .select('id, professional_id, is_active')
+    .eq('id', keyId)
+    .single();
 
-    if (!keyId) {
-      return new Response(
-        JSON.stringify({ error: 'key_id is required' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Verify the key belongs to this professional
-    const { data: keyData, error: keyError } = await supabase
-      .from('api_keys')
-      .select('id, professional_id, is_active')
-      .eq('id', keyId)
-      .single();
-
-    if (keyError || !keyData) {
-      return new Response(
-        JSON.stringify({ error: 'API key not found' }),
-        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+  if (keyError || !keyData) {
+    return errorResult(404, 'api_key_not_found', 'API key not found');
+  }
 
-    if (keyData.professional_id !== professionalId) {
-      return new Response(
-        JSON.stringify({ error: 'You do not have permission to revoke this API key' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+  if (keyData.professional_id !== ctx.professionalId) {
+    return errorResult(403, 'forbidden', 'You do not have permission to revoke this API key');
+  }
 
-    if (!keyData.is_active) {
-      return new Response(
-        JSON.stringify({ error: 'API key is already inactive' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+  if (!keyData.is_active) {
+    return errorResult(400, 'api_key_inactive', 'API key is already inactive');
+  }
 
-    // Revoke the key
-    const { error: updateError } = await supabase
-      .from('api_keys')
-      .update({
-        is_active: false,
-        revoked_at: new Date().toISOString(),
-        // Store reason in a new column if needed, for now just deactivate
-      })
-      .eq('id', keyId);
+  // Revoke the key
+  const { error: updateError } = await ctx.supabase
+    .from('api_keys')
+    .update({
+      is_active: false,
+      revoked_at: new Date().toISOString(),
+      // Store reason in a new column if needed, for now just deactivate
+    })
+    .eq('id', keyId);
+
+  if (updateError) {
+    ctx.logger.error('Error revoking API key', { error: updateError });
+    return errorResult(500, 'database_error', 'Failed to revoke API key');
+  }
 
-    if (updateError) {
-      console.error('Error revoking API key:', updateError);
-      return new Response(
-        JSON.stringify({ error: 'Failed to revoke API key' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+  return {
+    status: 200,
+    body: {
+      success: true,
+      message: 'API key revoked successfully'
     }
-
-    return new Response(
-      JSON.stringify({
-        success: true,
-        message: 'API key revoked successfully'
-      }),
-      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
-
-  } catch (error) {
-    console.error('Error revoking API key:', error);
-    return new Response(
-      JSON.stringify({ error: 'Internal server error' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
-  }
-});
+  };
+}));
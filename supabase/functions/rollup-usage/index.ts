@@ -0,0 +1,46 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { rollupUsage } from "../_shared/usageAnalytics.ts";
+import { createHandler, errorResult } from "../_shared/pipeline.ts";
+
+// By default, recompute the last two hours (late log writes land in the previous hour)
+const DEFAULT_LOOKBACK_HOURS = 2;
+
+// Upper bound for a backfill in a single invocation
+const MAX_BACKFILL_DAYS = 31;
+
+serve(createHandler({
+  endpoint: '/rollup-usage',
+  methods: ['POST'],
+  auth: 'service_role',
+  // No body is ok, use the default range
+  body: 'optional'
+}, async (ctx) => {
+  // Range to recompute (body "from"/"to" for backfills, default: the last few hours)
+  const to = ctx.body!.to !== undefined ? new Date(ctx.body!.to as string) : new Date();
+  const from = ctx.body!.from !== undefined
+    ? new Date(ctx.body!.from as string)
+    : new Date(to.getTime() - DEFAULT_LOOKBACK_HOURS * 60 * 60 * 1000);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+    return errorResult(400, 'validation_error', 'from and to must be valid dates with from before to', { field: 'from' });
+  }
+
+  if (to.getTime() - from.getTime() > MAX_BACKFILL_DAYS * 24 * 60 * 60 * 1000) {
+    return errorResult(400, 'validation_error', `Range cannot exceed ${MAX_BACKFILL_DAYS} days`, { field: 'from' });
+  }
+
+  const rows = await rollupUsage(ctx.supabase, from, to, ctx.logger);
+  if (rows === null) {
+    return errorResult(500, 'database_error', 'Failed to roll up usage');
+  }
+
+  return {
+    status: 200,
+    body: {
+      success: true,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      rollups_written: rows
+    }
+  };
+}));
@@ -0,0 +1,157 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { generateApiKey, getKeyDisplay, resolveKeyExpiry } from "../_shared/apiKeyAuth.ts";
+import { createHandler, errorResult } from "../_shared/pipeline.ts";
+
+// Grace period during which the old key keeps working
+const DEFAULT_GRACE_PERIOD_HOURS = 24;
+const MAX_GRACE_PERIOD_HOURS = 30 * 24;
+
+serve(createHandler({
+  endpoint: '/rotate-api-key',
+  methods: ['POST'],
+  auth: 'token',
+  body: 'required'
+}, async (ctx) => {
+  const professionalId = ctx.professionalId!;
+  const keyId = ctx.body!.key_id as string | undefined;
+  const gracePeriodHours = ctx.body!.grace_period_hours ?? DEFAULT_GRACE_PERIOD_HOURS;
+
+  if (!keyId) {
+    return errorResult(400, 'validation_error', 'key_id is required', { field: 'key_id' });
+  }
+
+  if (typeof gracePeriodHours !== 'number' || gracePeriodHours < 0 || gracePeriodHours > MAX_GRACE_PERIOD_HOURS) {
+    return errorResult(
+      400,
+      'validation_error',
+      `grace_period_hours must be a number between 0 and ${MAX_GRACE_PERIOD_HOURS}`,
+      { field: 'grace_period_hours' }
+    );
+  }
+
+  // Expiry requested for the successor, capped like at creation
+  const requestedExpiry = resolveKeyExpiry(ctx.body!.expires_in_days, ctx.body!.expires_at);
+  if ('error' in requestedExpiry) {
+    return errorResult(400, 'validation_error', requestedExpiry.error);
+  }
+
+  // Verify the key belongs to this professional
+  const { data: keyData, error: keyError } = await ctx.supabase
+    .from('api_keys')
+    .select('id, professional_id, name, scopes, allowed_cidrs, is_active, expires_at, rotated_at')
+    .eq('id', keyId)
+    .single();
+
+  if (keyError || !keyData) {
+    return errorResult(404, 'api_key_not_found', 'API key not found');
+  }
+
+  if (keyData.professional_id !== professionalId) {
+    return errorResult(403, 'forbidden', 'You do not have permission to rotate this API key');
+  }
+
+  if (!keyData.is_active) {
+    return errorResult(400, 'api_key_inactive', 'API key is inactive');
+  }
+
+  // The successor would inherit the past expiry, so expired keys are replaced by creating a new key
+  if (keyData.expires_at && new Date(keyData.expires_at) <= new Date()) {
+    return errorResult(400, 'api_key_expired', 'API key has expired and cannot be rotated. Create a new key instead.');
+  }
+
+  if (keyData.rotated_at) {
+    return errorResult(409, 'api_key_already_rotated', 'API key has already been rotated');
+  }
+
+  // The old key expires after the grace period (or earlier, if it was already due to expire)
+  const rotatedAt = new Date();
+  let oldKeyExpiresAt = new Date(rotatedAt.getTime() + gracePeriodHours * 60 * 60 * 1000);
+  if (keyData.expires_at && new Date(keyData.expires_at) < oldKeyExpiresAt) {
+    oldKeyExpiresAt = new Date(keyData.expires_at);
+  }
+
+  // Mark the old key as rotated first, which frees its name for the successor.
+  // Only a key that is not rotated yet is updated, so concurrent rotations of the same key
+  // cannot both create a successor.
+  const { data: rotatedKeys, error: rotateError } = await ctx.supabase
+    .from('api_keys')
+    .update({
+      rotated_at: rotatedAt.toISOString(),
+      expires_at: oldKeyExpiresAt.toISOString()
+    })
+    .eq('id', keyId)
+    .is('rotated_at', null)
+    .select('id');
+
+  if (rotateError) {
+    ctx.logger.error('Error rotating API key', { error: rotateError });
+    return errorResult(500, 'database_error', 'Failed to rotate API key');
+  }
+
+  if (!rotatedKeys || rotatedKeys.length === 0) {
+    return errorResult(409, 'api_key_already_rotated', 'API key has already been rotated');
+  }
+
+  // Create the successor with the same name, scopes and IP allowlist. It keeps the old key's
+  // expiry unless a new one was requested.
+  const successorExpiresAt = requestedExpiry.expiresAt ?? keyData.expires_at;
+  const result = await generateApiKey(professionalId, keyData.name, ctx.supabase, {
+    scopes: keyData.scopes,
+    expiresAt: successorExpiresAt,
+    allowedCidrs: keyData.allowed_cidrs
+  });
+
+  if ('error' in result) {
+    // Undo the rotation so the old key is left untouched
+    await ctx.supabase
+      .from('api_keys')
+      .update({ rotated_at: null, expires_at: keyData.expires_at })
+      .eq('id', keyId);
+
+    return errorResult(result.errorCode === 'database_error' ? 500 : 400, result.errorCode, result.error);
+  }
+
+  await ctx.supabase
+    .from('api_keys')
+    .update({ replaced_by_key_id: result.keyId })
+    .eq('id', keyId);
+
+  // Carry over key-specific rate limits
+  const { data: rateLimitConfig } = await ctx.supabase
+    .from('api_rate_limit_config')
+    .select('requests_per_minute, requests_per_hour, requests_per_day, notes')
+    .eq('scope', 'api_key')
+    .eq('scope_id', keyId)
+    .eq('is_active', true)
+    .single();
+
+  if (rateLimitConfig) {
+    const { error: configError } = await ctx.supabase
+      .from('api_rate_limit_config')
+      .insert({ ...rateLimitConfig, scope: 'api_key', scope_id: result.keyId });
+
+    if (configError) {
+      ctx.logger.error('Error copying rate limit config', { error: configError });
+    }
+  }
+
+  return {
+    status: 201,
+    body: {
+      success: true,
+      api_key: result.fullKey,
+      key_id: result.keyId,
+      key_prefix: result.prefix,
+      key_display: getKeyDisplay(result.prefix, result.suffix),
+      key_fingerprint: result.fingerprint,
+      scopes: result.scopes,
+      name: keyData.name,
+      expires_at: successorExpiresAt,
+      previous_key: {
+        id: keyId,
+        expires_at: oldKeyExpiresAt.toISOString()
+      },
+      message: 'Store this API key securely. It will not be shown again. The previous key keeps working until previous_key.expires_at.'
+    }
+  };
+}));
@@ -1,191 +1,121 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
-import { corsHeaders } from "../_shared/cors.ts";
-import { extractApiKey, validateApiKey, getSupabaseClient } from "../_shared/apiKeyAuth.ts";
-import { checkRateLimit, getRateLimitHeaders } from "../_shared/rateLimiter.ts";
-import { createRequestContext, finalizeRequest, RequestContext } from "../_shared/requestLogger.ts";
+import { SCOPE_LEADS_WRITE } from "../_shared/apiKeyAuth.ts";
+import { createHandler, errorResult } from "../_shared/pipeline.ts";
 import { submitLead, LeadSubmissionRequest } from "../_shared/leadSubmission.ts";
+import {
+  extractIdempotencyKey,
+  isValidIdempotencyKey,
+  hashRequestBody,
+  checkIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey
+} from "../_shared/idempotency.ts";
 
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  const supabase = getSupabaseClient();
-  const context = createRequestContext(req, '/submit-lead-api');
+serve(createHandler({
+  endpoint: '/submit-lead-api',
+  methods: ['POST'],
+  auth: 'api_key',
+  scope: SCOPE_LEADS_WRITE,
+  body: 'required'
+}, async (ctx) => {
+  const requestBody = ctx.body as unknown as LeadSubmissionRequest;
+  const apiKeyId = ctx.request.apiKeyId!;
+  let idempotencyRecordId: string | null = null;
 
   try {
-    // Only accept POST requests
-    if (req.method !== 'POST') {
-      const response = {
-        error: 'method_not_allowed',
-        message: 'Only POST requests are allowed',
-        request_id: context.requestId
-      };
-      await finalizeRequest(supabase, context, {
-        status: 405,
-        body: response,
-        errorCode: 'method_not_allowed'
-      });
-      return new Response(JSON.stringify(response), {
-        status: 405,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
-    }
+    // Check idempotency key (safe retries from Make.com and other clients)
+    const idempotencyKey = extractIdempotencyKey(ctx.req);
 
-    // Extract and validate API key
-    const apiKey = extractApiKey(req);
-    if (!apiKey) {
-      const response = {
-        error: 'missing_api_key',
-        message: 'X-API-Key header is required',
-        request_id: context.requestId
-      };
-      await finalizeRequest(supabase, context, {
-        status: 401,
-        body: response,
-        errorCode: 'missing_api_key'
-      });
-      return new Response(JSON.stringify(response), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
-    }
+    if (idempotencyKey !== null) {
+      ctx.request.idempotencyKey = idempotencyKey;
 
-    const keyValidation = await validateApiKey(apiKey, supabase);
-    if (!keyValidation.isValid) {
-      const response = {
-        error: keyValidation.errorCode,
-        message: keyValidation.error,
-        request_id: context.requestId
-      };
-      await finalizeRequest(supabase, context, {
-        status: 401,
-        body: response,
-        errorCode: keyValidation.errorCode
-      });
-      return new Response(JSON.stringify(response), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
-    }
+      if (!isValidIdempotencyKey(idempotencyKey)) {
+        return errorResult(400, 'invalid_idempotency_key', 'Idempotency-Key must be 1-255 printable ASCII characters');
+      }
 
-    // Update context with auth info
-    context.apiKeyId = keyValidation.apiKeyId!;
-    context.professionalId = keyValidation.professionalId!;
-
-    // Check rate limits
-    const rateLimitResult = await checkRateLimit(
-      supabase,
-      keyValidation.apiKeyId!,
-      keyValidation.professionalId!
-    );
-
-    const rateLimitHeaders = getRateLimitHeaders(rateLimitResult);
-
-    if (!rateLimitResult.allowed) {
-      const response = {
-        error: 'rate_limit_exceeded',
-        message: 'Rate limit exceeded. Please wait before making more requests.',
-        retry_after: rateLimitResult.retryAfter,
-        limits: {
-          minute: { remaining: rateLimitResult.remaining.minute, reset: rateLimitResult.reset.minute },
-          hour: { remaining: rateLimitResult.remaining.hour, reset: rateLimitResult.reset.hour },
-          day: { remaining: rateLimitResult.remaining.day, reset: rateLimitResult.reset.day }
-        },
-        request_id: context.requestId
-      };
-      await finalizeRequest(supabase, context, {
-        status: 429,
-        body: response,
-        errorCode: 'rate_limit_exceeded'
-      });
-      return new Response(JSON.stringify(response), {
-        status: 429,
-        headers: {
-          ...corsHeaders,
-          ...rateLimitHeaders,
-          'Content-Type': 'application/json',
-          'Retry-After': String(rateLimitResult.retryAfter)
-        }
-      });
-    }
+      const requestHash = await hashRequestBody(requestBody);
+      const idempotency = await checkIdempotencyKey(
+        ctx.supabase,
+        apiKeyId,
+        idempotencyKey,
+        requestHash,
+        ctx.request.requestId,
+        ctx.logger
+      );
 
-    // Parse request body
-    let requestBody: LeadSubmissionRequest;
-    try {
-      requestBody = await req.json();
-      context.requestBody = requestBody as Record<string, unknown>;
-    } catch {
-      const response = {
-        error: 'invalid_json',
-        message: 'Request body must be valid JSON',
-        request_id: context.requestId
-      };
-      await finalizeRequest(supabase, context, {
-        status: 400,
-        body: response,
-        errorCode: 'invalid_json'
-      });
-      return new Response(JSON.stringify(response), {
-        status: 400,
-        headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' }
-      });
+      if (idempotency.status === 'mismatch') {
+        return errorResult(422, 'idempotency_key_mismatch', 'Idempotency-Key was already used with a different request body');
+      }
+
+      if (idempotency.status === 'in_progress') {
+        return errorResult(409, 'idempotency_key_in_progress', 'A request with this Idempotency-Key is still being processed');
+      }
+
+      if (idempotency.status === 'replay') {
+        // Return the original result instead of creating a duplicate lead. The normalized phone
+        // numbers of the original response are read back from the lead.
+        ctx.request.isReplay = true;
+        const record = idempotency.record!;
+        const { data: lead } = record.lead_id
+          ? await ctx.supabase.from('leads').select('client_phone, client_phone_e164').eq('id', record.lead_id).single()
+          : { data: null };
+
+        return {
+          status: record.response_status || 201,
+          body: {
+            success: true,
+            lead_id: record.lead_id,
+            client_phone: lead?.client_phone ?? null,
+            client_phone_e164: lead?.client_phone_e164 ?? null,
+            request_id: record.request_id,
+            replayed: true
+          },
+          headers: { 'Idempotent-Replayed': 'true' },
+          leadId: record.lead_id
+        };
+      }
+
+      idempotencyRecordId = idempotency.record!.id;
     }
 
     // Submit the lead
-    const result = await submitLead(supabase, keyValidation.professionalId!, requestBody);
+    const result = await submitLead(ctx.supabase, ctx.professionalId!, requestBody, apiKeyId, ctx.logger);
 
     if (!result.success) {
-      const response = {
-        error: result.errorCode,
-        message: result.error,
+      // Failed submissions don't consume the key, so the client can fix and retry
+      if (idempotencyRecordId) {
+        await releaseIdempotencyKey(ctx.supabase, idempotencyRecordId, ctx.logger);
+      }
+
+      // An exhausted lead quota is not a problem with the request, so it is not a 400
+      const status = result.errorCode === 'quota_exceeded' ? 403 : 400;
+      return errorResult(status, result.errorCode!, result.error!, {
         field: result.field,
-        request_id: context.requestId
-      };
-      await finalizeRequest(supabase, context, {
-        status: 400,
-        body: response,
-        errorCode: result.errorCode
-      });
-      return new Response(JSON.stringify(response), {
-        status: 400,
-        headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' }
+        errors: result.errors,
+        reset_at: result.resetAt
       });
     }
 
-    // Success response
-    const response = {
-      success: true,
-      lead_id: result.leadId,
-      request_id: context.requestId
-    };
-    await finalizeRequest(supabase, context, {
+    if (idempotencyRecordId) {
+      await completeIdempotencyKey(ctx.supabase, idempotencyRecordId, 201, result.leadId!, ctx.logger);
+    }
+
+    return {
       status: 201,
-      body: response,
+      body: {
+        success: true,
+        lead_id: result.leadId,
+        client_phone: result.clientPhone,
+        client_phone_e164: result.clientPhoneE164
+      },
       leadId: result.leadId
-    });
-    return new Response(JSON.stringify(response), {
-      status: 201,
-      headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' }
-    });
+    };
 
   } catch (error) {
-    console.error('Unexpected error:', error);
-    const response = {
-      error: 'internal_error',
-      message: 'An unexpected error occurred',
-      request_id: context.requestId
-    };
-    await finalizeRequest(supabase, context, {
-      status: 500,
-      body: response,
-      errorCode: 'internal_error',
-      errorMessage: error instanceof Error ? error.message : 'Unknown error'
-    });
-    return new Response(JSON.stringify(response), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    });
+    // Release the key so a retry isn't stuck behind a request that never finished
+    if (idempotencyRecordId) {
+      await releaseIdempotencyKey(ctx.supabase, idempotencyRecordId, ctx.logger);
+    }
+    throw error;
   }
-});
+}));
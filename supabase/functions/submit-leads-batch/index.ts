@@ -0,0 +1,82 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { SCOPE_LEADS_WRITE } from "../_shared/apiKeyAuth.ts";
+import { createHandler, errorResult, HandlerContext } from "../_shared/pipeline.ts";
+import {
+  submitLeadsBatch,
+  LeadSubmissionRequest,
+  BatchMode,
+  MAX_BATCH_SIZE
+} from "../_shared/leadSubmission.ts";
+
+// Every 10 leads in a batch count as one request against the rate limit
+const LEADS_PER_RATE_LIMIT_UNIT = 10;
+
+const VALID_MODES: BatchMode[] = ['all_or_nothing', 'best_effort'];
+
+function isValidBatch(leads: unknown): leads is LeadSubmissionRequest[] {
+  return Array.isArray(leads) && leads.length > 0 && leads.length <= MAX_BATCH_SIZE;
+}
+
+/**
+ * Rate limit cost, weighted by batch size (a batch that is rejected counts as one request)
+ */
+function batchCost(ctx: HandlerContext): number {
+  const leads = ctx.body?.leads;
+  return isValidBatch(leads) ? Math.ceil(leads.length / LEADS_PER_RATE_LIMIT_UNIT) : 1;
+}
+
+serve(createHandler({
+  endpoint: '/submit-leads-batch',
+  methods: ['POST'],
+  auth: 'api_key',
+  scope: SCOPE_LEADS_WRITE,
+  body: 'required',
+  rateLimitCost: batchCost
+}, async (ctx) => {
+  const leads = ctx.body!.leads;
+  const mode = (ctx.body!.mode || 'best_effort') as BatchMode;
+  ctx.request.requestBody = { mode: ctx.body!.mode, leads };
+
+  if (!VALID_MODES.includes(mode)) {
+    return errorResult(400, 'invalid_batch', `mode must be one of: ${VALID_MODES.join(', ')}`, { field: 'mode' });
+  }
+  if (!isValidBatch(leads)) {
+    return errorResult(400, 'invalid_batch', `leads must be an array of 1-${MAX_BATCH_SIZE} items`, { field: 'leads' });
+  }
+
+  // Submit the leads
+  const results = await submitLeadsBatch(ctx.supabase, ctx.professionalId!, leads, mode, ctx.request.apiKeyId!, ctx.logger);
+  const createdCount = results.filter(r => r.success).length;
+
+  // 201 if everything was created, 207 for partial success, 400 if nothing was created
+  const status = createdCount === results.length ? 201 : createdCount > 0 ? 207 : 400;
+
+  return {
+    status,
+    body: {
+      success: createdCount > 0,
+      mode,
+      total: results.length,
+      created: createdCount,
+      failed: results.length - createdCount,
+      results: results.map(r => r.success
+        ? {
+          index: r.index,
+          success: true,
+          lead_id: r.leadId,
+          client_phone: r.clientPhone,
+          client_phone_e164: r.clientPhoneE164
+        }
+        : {
+          index: r.index,
+          success: false,
+          error: r.errorCode,
+          message: r.error,
+          field: r.field,
+          errors: r.errors,
+          reset_at: r.resetAt
+        })
+    },
+    errorCode: status === 400 ? 'batch_failed' : null
+  };
+}));
@@ -0,0 +1,73 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { findInvalidCidr, MAX_ALLOWED_CIDRS } from "../_shared/ipAllowlist.ts";
+import { createHandler, errorResult } from "../_shared/pipeline.ts";
+
+serve(createHandler({
+  endpoint: '/update-api-key',
+  methods: ['POST'],
+  auth: 'token',
+  body: 'required'
+}, async (ctx) => {
+  const keyId = ctx.body!.key_id as string | undefined;
+  const allowedCidrs = ctx.body!.allowed_cidrs;
+
+  if (!keyId) {
+    return errorResult(400, 'validation_error', 'key_id is required', { field: 'key_id' });
+  }
+
+  // Validate IP allowlist (an empty array removes the restriction)
+  if (!Array.isArray(allowedCidrs) || allowedCidrs.length > MAX_ALLOWED_CIDRS) {
+    return errorResult(
+      400,
+      'validation_error',
+      `allowed_cidrs must be an array of at most ${MAX_ALLOWED_CIDRS} CIDR ranges`,
+      { field: 'allowed_cidrs' }
+    );
+  }
+
+  const invalidCidr = findInvalidCidr(allowedCidrs);
+  if (invalidCidr) {
+    return errorResult(400, 'validation_error', `Invalid CIDR range: ${invalidCidr}`, { field: 'allowed_cidrs' });
+  }
+
+  // Verify the key belongs to this professional
+  const { data: keyData, error: keyError } = await ctx.supabase
+    .from('api_keys')
+    .select('id, professional_id, is_active')
+    .eq('id', keyId)
+    .single();
+
+  if (keyError || !keyData) {
+    return errorResult(404, 'api_key_not_found', 'API key not found');
+  }
+
+  if (keyData.professional_id !== ctx.professionalId) {
+    return errorResult(403, 'forbidden', 'You do not have permission to update this API key');
+  }
+
+  if (!keyData.is_active) {
+    return errorResult(400, 'api_key_inactive', 'API key is inactive');
+  }
+
+  // Update the key
+  const normalizedCidrs = [...new Set((allowedCidrs as string[]).map(cidr => cidr.trim()))];
+  const { error: updateError } = await ctx.supabase
+    .from('api_keys')
+    .update({ allowed_cidrs: normalizedCidrs })
+    .eq('id', keyId);
+
+  if (updateError) {
+    ctx.logger.error('Error updating API key', { error: updateError });
+    return errorResult(500, 'database_error', 'Failed to update API key');
+  }
+
+  return {
+    status: 200,
+    body: {
+      success: true,
+      key_id: keyId,
+      allowed_cidrs: normalizedCidrs,
+      message: 'API key updated successfully'
+    }
+  };
+}));
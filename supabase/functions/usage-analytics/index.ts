@@ -0,0 +1,77 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { UUID_REGEX } from "../_shared/leadLookup.ts";
+import {
+  getUsageAnalytics,
+  UsageGranularity,
+  USAGE_GRANULARITIES,
+  MAX_USAGE_RANGE_DAYS,
+  DEFAULT_USAGE_RANGE_DAYS
+} from "../_shared/usageAnalytics.ts";
+import { createHandler, errorResult } from "../_shared/pipeline.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+serve(createHandler({
+  endpoint: '/usage-analytics',
+  methods: ['GET'],
+  auth: 'token'
+}, async (ctx) => {
+  const params = new URL(ctx.req.url).searchParams;
+
+  const granularity = (params.get('granularity') || 'hour') as UsageGranularity;
+  if (!USAGE_GRANULARITIES.includes(granularity)) {
+    return errorResult(
+      400,
+      'validation_error',
+      `granularity must be one of: ${USAGE_GRANULARITIES.join(', ')}`,
+      { field: 'granularity' }
+    );
+  }
+
+  // Time range, defaulting to the most recent DEFAULT_USAGE_RANGE_DAYS
+  const to = params.get('to') ? new Date(params.get('to')!) : new Date();
+  const from = params.get('from')
+    ? new Date(params.get('from')!)
+    : new Date(to.getTime() - DEFAULT_USAGE_RANGE_DAYS[granularity] * DAY_MS);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+    return errorResult(400, 'validation_error', 'from and to must be valid ISO 8601 dates with from before to', { field: 'from' });
+  }
+
+  if (to.getTime() - from.getTime() > MAX_USAGE_RANGE_DAYS[granularity] * DAY_MS) {
+    return errorResult(
+      400,
+      'validation_error',
+      `Range cannot exceed ${MAX_USAGE_RANGE_DAYS[granularity]} days for ${granularity} granularity`,
+      { field: 'from' }
+    );
+  }
+
+  // Optional filter: a single key
+  const keyId = params.get('key_id') || undefined;
+  if (keyId && !UUID_REGEX.test(keyId)) {
+    return errorResult(400, 'validation_error', 'key_id must be a valid UUID', { field: 'key_id' });
+  }
+
+  const usage = await getUsageAnalytics(ctx.supabase, ctx.professionalId!, {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    granularity,
+    keyId
+  }, ctx.logger);
+
+  if (usage.error) {
+    return errorResult(500, 'database_error', usage.error);
+  }
+
+  return {
+    status: 200,
+    body: {
+      success: true,
+      granularity,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      keys: usage.keys
+    }
+  };
+}));
@@ -0,0 +1,28 @@
+-- Idempotency keys for safe retries of lead submissions (Make.com retries on timeouts)
+CREATE TABLE IF NOT EXISTS public.api_idempotency_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  api_key_id UUID NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  idempotency_key VARCHAR(255) NOT NULL,
+  request_hash TEXT NOT NULL,
+  request_id UUID NOT NULL,
+  lead_id UUID REFERENCES leads(id) ON DELETE SET NULL,
+  response_status INTEGER,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  completed_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ NOT NULL,
+  UNIQUE(api_key_id, idempotency_key)
+);
+
+-- Index for cleaning up expired keys
+CREATE INDEX IF NOT EXISTS idx_idempotency_expires_at ON api_idempotency_keys(expires_at);
+
+-- Record replays in the request log
+ALTER TABLE api_request_logs ADD COLUMN IF NOT EXISTS idempotency_key VARCHAR(255);
+ALTER TABLE api_request_logs ADD COLUMN IF NOT EXISTS is_replay BOOLEAN DEFAULT false;
+
+-- Enable RLS
+ALTER TABLE api_idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+-- Idempotency keys are managed by service role
+CREATE POLICY "Idempotency keys access" ON api_idempotency_keys
+  FOR ALL USING (true);
@@ -0,0 +1,9 @@
+-- Track which API key submitted each lead, so API clients can look their leads up again
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS api_key_id UUID REFERENCES api_keys(id) ON DELETE SET NULL;
+
+-- Index for listing leads by submitting key (keyset pagination on created_at, id)
+CREATE INDEX IF NOT EXISTS idx_leads_api_key ON leads(api_key_id, created_at DESC, id DESC) WHERE api_key_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_leads_professional_created ON leads(professional_id, created_at DESC, id DESC);
+
+-- Per-key permissions (e.g. 'leads:read_contact' to see unmasked client contact data)
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS scopes TEXT[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,117 @@
+-- Webhook endpoints registered by professionals for lead lifecycle events
+CREATE TABLE IF NOT EXISTS public.webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  professional_id UUID NOT NULL REFERENCES professionals(id) ON DELETE CASCADE,
+  api_key_id UUID REFERENCES api_keys(id) ON DELETE SET NULL,
+  url TEXT NOT NULL,
+  event_types TEXT[] NOT NULL,
+  secret TEXT NOT NULL,
+  description VARCHAR(255),
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_professional ON webhook_endpoints(professional_id) WHERE is_active = true;
+
+-- One delivery per (event, endpoint); retried until it succeeds or is dead-lettered
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  professional_id UUID NOT NULL REFERENCES professionals(id) ON DELETE CASCADE,
+  event_type VARCHAR(50) NOT NULL,
+  payload JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',  -- pending | succeeded | dead_letter
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ DEFAULT now(),
+  last_attempt_at TIMESTAMPTZ,
+  last_response_status INTEGER,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON webhook_deliveries(endpoint_id, created_at DESC);
+
+-- Every HTTP attempt for a delivery, kept next to api_request_logs for debugging
+CREATE TABLE IF NOT EXISTS public.webhook_delivery_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_id UUID NOT NULL REFERENCES webhook_deliveries(id) ON DELETE CASCADE,
+  attempt_number INTEGER NOT NULL,
+  request_url TEXT NOT NULL,
+  response_status INTEGER,
+  response_body TEXT,
+  error_message TEXT,
+  duration_ms INTEGER,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_attempts_delivery ON webhook_delivery_attempts(delivery_id, attempt_number);
+
+-- Enqueue deliveries for lead lifecycle events
+CREATE OR REPLACE FUNCTION public.enqueue_lead_webhook_events()
+RETURNS TRIGGER AS $$
+DECLARE
+  event_names TEXT[] := '{}';
+  event_name TEXT;
+  lead_payload JSONB;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    event_names := array_append(event_names, 'lead.created');
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    event_names := array_append(event_names, 'lead.status_changed');
+    IF NEW.status = 'accepted' THEN
+      event_names := array_append(event_names, 'lead.accepted');
+    ELSIF NEW.status IN ('closed', 'completed', 'cancelled') THEN
+      event_names := array_append(event_names, 'lead.closed');
+    END IF;
+  END IF;
+
+  IF array_length(event_names, 1) IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  lead_payload := jsonb_build_object(
+    'id', NEW.id,
+    'title', NEW.title,
+    'location', NEW.location,
+    'profession', to_jsonb(NEW.profession),
+    'status', NEW.status,
+    'previous_status', CASE WHEN TG_OP = 'UPDATE' THEN OLD.status ELSE NULL END,
+    'created_at', NEW.created_at
+  );
+
+  FOREACH event_name IN ARRAY event_names LOOP
+    INSERT INTO webhook_deliveries (endpoint_id, professional_id, event_type, payload)
+    SELECT e.id, e.professional_id, event_name, jsonb_build_object('event', event_name, 'lead', lead_payload)
+    FROM webhook_endpoints e
+    WHERE e.professional_id = NEW.professional_id
+      AND e.is_active = true
+      AND event_name = ANY(e.event_types);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_leads_webhook_events ON leads;
+CREATE TRIGGER trg_leads_webhook_events
+  AFTER INSERT OR UPDATE OF status ON leads
+  FOR EACH ROW EXECUTE FUNCTION enqueue_lead_webhook_events();
+
+-- Enable RLS on tables
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_delivery_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Webhook tables are managed by service role only: endpoints hold the signing secrets,
+-- so anon and authenticated clients get no access
+CREATE POLICY "Webhook endpoints access" ON webhook_endpoints
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE POLICY "Webhook deliveries access" ON webhook_deliveries
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE POLICY "Webhook delivery attempts access" ON webhook_delivery_attempts
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
@@ -0,0 +1,7 @@
+-- Scoped API keys: existing keys keep full access, new keys get the standard scopes by default
+UPDATE api_keys
+SET scopes = ARRAY(
+  SELECT DISTINCT unnest(scopes || ARRAY['leads:write', 'leads:read', 'webhooks:manage', 'usage:read'])
+);
+
+ALTER TABLE api_keys ALTER COLUMN scopes SET DEFAULT ARRAY['leads:write', 'leads:read', 'webhooks:manage', 'usage:read'];
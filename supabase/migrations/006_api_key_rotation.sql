@@ -0,0 +1,9 @@
+-- API key rotation: the old key keeps working until expires_at, pointing at its successor
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS rotated_at TIMESTAMPTZ;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS replaced_by_key_id UUID REFERENCES api_keys(id) ON DELETE SET NULL;
+
+-- A rotated key and its successor share a name during the grace period,
+-- so names are only unique among active, non-rotated keys
+ALTER TABLE api_keys DROP CONSTRAINT IF EXISTS api_keys_professional_id_name_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_api_keys_professional_name
+  ON api_keys(professional_id, name) WHERE is_active = true AND rotated_at IS NULL;
@@ -0,0 +1,23 @@
+-- Expiry notifications for API keys
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS expiry_notified_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_expires_at ON api_keys(expires_at) WHERE is_active = true AND expires_at IS NOT NULL;
+
+-- Notification records for professionals (shown in the Ofair Pro app)
+CREATE TABLE IF NOT EXISTS public.api_key_notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  professional_id UUID NOT NULL REFERENCES professionals(id) ON DELETE CASCADE,
+  notification_type VARCHAR(50) NOT NULL,
+  payload JSONB NOT NULL,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_key_notifications_professional ON api_key_notifications(professional_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE api_key_notifications ENABLE ROW LEVEL SECURITY;
+
+-- Notifications are managed by service role
+CREATE POLICY "API key notifications access" ON api_key_notifications
+  FOR ALL USING (true);
@@ -0,0 +1,4 @@
+-- Identify keys in listings without exposing them: last 4 characters and a short fingerprint.
+-- Keys created before this migration have neither (the plaintext key was never stored).
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS key_suffix VARCHAR(4);
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS key_fingerprint VARCHAR(16);
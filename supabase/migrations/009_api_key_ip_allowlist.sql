@@ -0,0 +1,2 @@
+-- Optional per-key IP allowlist (CIDR ranges, IPv4 or IPv6). Empty = any IP.
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS allowed_cidrs TEXT[] NOT NULL DEFAULT '{}';
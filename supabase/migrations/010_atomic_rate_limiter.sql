@@ -0,0 +1,128 @@
+-- Atomic sliding-window rate limiter.
+--
+-- Each tier (minute/hour/day) keeps the count of the current fixed window and the previous one.
+-- The sliding estimate is: previous_count * (1 - elapsed fraction of current window) + current_count,
+-- which removes the 2x burst at window boundaries. The row is locked for the whole check-and-increment,
+-- so concurrent requests for the same identifier are serialized and cannot overshoot the limit.
+
+ALTER TABLE api_rate_limit_tracking ADD COLUMN IF NOT EXISTS minute_prev_count INTEGER DEFAULT 0;
+ALTER TABLE api_rate_limit_tracking ADD COLUMN IF NOT EXISTS hour_prev_count INTEGER DEFAULT 0;
+ALTER TABLE api_rate_limit_tracking ADD COLUMN IF NOT EXISTS day_prev_count INTEGER DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.check_rate_limit(
+  p_identifier VARCHAR,
+  p_identifier_type VARCHAR,
+  p_limit_minute INTEGER,
+  p_limit_hour INTEGER,
+  p_limit_day INTEGER,
+  p_cost INTEGER DEFAULT 1
+)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  remaining_minute INTEGER,
+  remaining_hour INTEGER,
+  remaining_day INTEGER,
+  reset_minute TIMESTAMPTZ,
+  reset_hour TIMESTAMPTZ,
+  reset_day TIMESTAMPTZ,
+  retry_after INTEGER
+) AS $$
+DECLARE
+  v_now TIMESTAMPTZ := clock_timestamp();
+  v_minute_start TIMESTAMPTZ := date_trunc('minute', v_now);
+  v_hour_start TIMESTAMPTZ := date_trunc('hour', v_now);
+  v_day_start TIMESTAMPTZ := date_trunc('day', v_now);
+  r api_rate_limit_tracking%ROWTYPE;
+  v_min_cur INTEGER; v_min_prev INTEGER;
+  v_hour_cur INTEGER; v_hour_prev INTEGER;
+  v_day_cur INTEGER; v_day_prev INTEGER;
+  v_min_frac DOUBLE PRECISION := EXTRACT(EPOCH FROM (v_now - v_minute_start)) / 60;
+  v_hour_frac DOUBLE PRECISION := EXTRACT(EPOCH FROM (v_now - v_hour_start)) / 3600;
+  v_day_frac DOUBLE PRECISION := EXTRACT(EPOCH FROM (v_now - v_day_start)) / 86400;
+  v_min_est DOUBLE PRECISION; v_hour_est DOUBLE PRECISION; v_day_est DOUBLE PRECISION;
+  v_allowed BOOLEAN;
+  v_retry INTEGER := 0;
+BEGIN
+  -- Make sure the row exists, then lock it
+  INSERT INTO api_rate_limit_tracking (identifier, identifier_type, minute_window, hour_window, day_window)
+  VALUES (p_identifier, p_identifier_type, v_minute_start, v_hour_start, v_day_start)
+  ON CONFLICT (identifier, identifier_type) DO NOTHING;
+
+  SELECT * INTO r FROM api_rate_limit_tracking
+  WHERE identifier = p_identifier AND identifier_type = p_identifier_type
+  FOR UPDATE;
+
+  -- Roll each tier forward: the current window becomes the previous one, older windows are dropped
+  IF r.minute_window = v_minute_start THEN
+    v_min_cur := r.minute_count; v_min_prev := COALESCE(r.minute_prev_count, 0);
+  ELSIF r.minute_window = v_minute_start - INTERVAL '1 minute' THEN
+    v_min_cur := 0; v_min_prev := r.minute_count;
+  ELSE
+    v_min_cur := 0; v_min_prev := 0;
+  END IF;
+
+  IF r.hour_window = v_hour_start THEN
+    v_hour_cur := r.hour_count; v_hour_prev := COALESCE(r.hour_prev_count, 0);
+  ELSIF r.hour_window = v_hour_start - INTERVAL '1 hour' THEN
+    v_hour_cur := 0; v_hour_prev := r.hour_count;
+  ELSE
+    v_hour_cur := 0; v_hour_prev := 0;
+  END IF;
+
+  IF r.day_window = v_day_start THEN
+    v_day_cur := r.day_count; v_day_prev := COALESCE(r.day_prev_count, 0);
+  ELSIF r.day_window = v_day_start - INTERVAL '1 day' THEN
+    v_day_cur := 0; v_day_prev := r.day_count;
+  ELSE
+    v_day_cur := 0; v_day_prev := 0;
+  END IF;
+
+  v_min_est := v_min_prev * (1 - v_min_frac) + v_min_cur;
+  v_hour_est := v_hour_prev * (1 - v_hour_frac) + v_hour_cur;
+  v_day_est := v_day_prev * (1 - v_day_frac) + v_day_cur;
+
+  v_allowed := v_min_est + p_cost <= p_limit_minute
+    AND v_hour_est + p_cost <= p_limit_hour
+    AND v_day_est + p_cost <= p_limit_day;
+
+  IF v_allowed THEN
+    v_min_cur := v_min_cur + p_cost;
+    v_hour_cur := v_hour_cur + p_cost;
+    v_day_cur := v_day_cur + p_cost;
+    v_min_est := v_min_est + p_cost;
+    v_hour_est := v_hour_est + p_cost;
+    v_day_est := v_day_est + p_cost;
+  ELSE
+    -- Seconds until the longest-blocked tier has decayed enough to admit this request
+    v_retry := GREATEST(
+      CASE WHEN v_min_est + p_cost <= p_limit_minute THEN 0
+        WHEN v_min_cur + p_cost > p_limit_minute OR v_min_prev = 0 THEN CEIL((1 - v_min_frac) * 60)
+        ELSE CEIL(((1 - (p_limit_minute - v_min_cur - p_cost)::DOUBLE PRECISION / v_min_prev) - v_min_frac) * 60) END,
+      CASE WHEN v_hour_est + p_cost <= p_limit_hour THEN 0
+        WHEN v_hour_cur + p_cost > p_limit_hour OR v_hour_prev = 0 THEN CEIL((1 - v_hour_frac) * 3600)
+        ELSE CEIL(((1 - (p_limit_hour - v_hour_cur - p_cost)::DOUBLE PRECISION / v_hour_prev) - v_hour_frac) * 3600) END,
+      CASE WHEN v_day_est + p_cost <= p_limit_day THEN 0
+        WHEN v_day_cur + p_cost > p_limit_day OR v_day_prev = 0 THEN CEIL((1 - v_day_frac) * 86400)
+        ELSE CEIL(((1 - (p_limit_day - v_day_cur - p_cost)::DOUBLE PRECISION / v_day_prev) - v_day_frac) * 86400) END,
+      1
+    );
+  END IF;
+
+  UPDATE api_rate_limit_tracking SET
+    minute_window = v_minute_start, minute_count = v_min_cur, minute_prev_count = v_min_prev,
+    hour_window = v_hour_start, hour_count = v_hour_cur, hour_prev_count = v_hour_prev,
+    day_window = v_day_start, day_count = v_day_cur, day_prev_count = v_day_prev,
+    last_request_at = v_now
+  WHERE id = r.id;
+
+  RETURN QUERY SELECT
+    v_allowed,
+    GREATEST(0, FLOOR(p_limit_minute - v_min_est))::INTEGER,
+    GREATEST(0, FLOOR(p_limit_hour - v_hour_est))::INTEGER,
+    GREATEST(0, FLOOR(p_limit_day - v_day_est))::INTEGER,
+    v_minute_start + INTERVAL '1 minute',
+    v_hour_start + INTERVAL '1 hour',
+    v_day_start + INTERVAL '1 day',
+    v_retry;
+END;
+$$ LANGUAGE plpgsql;
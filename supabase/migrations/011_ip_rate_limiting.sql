@@ -0,0 +1,127 @@
+-- Pre-authentication rate limiting by client IP, with lockouts for repeated invalid API keys.
+--
+-- IP counters live in api_rate_limit_tracking with identifier_type = 'ip' and reuse check_rate_limit.
+-- Invalid-key attempts are counted per IP; after 10 failures within 15 minutes (the record_auth_failure
+-- defaults) the IP is locked out. Each further lockout doubles the penalty (1 minute, 2, 4, ... up to 24 hours).
+-- The escalation resets once an IP has stayed clean for a day after its last lockout.
+
+ALTER TABLE api_rate_limit_tracking ADD COLUMN IF NOT EXISTS failed_auth_count INTEGER DEFAULT 0;
+ALTER TABLE api_rate_limit_tracking ADD COLUMN IF NOT EXISTS failed_auth_window TIMESTAMPTZ;
+ALTER TABLE api_rate_limit_tracking ADD COLUMN IF NOT EXISTS lockout_count INTEGER DEFAULT 0;
+ALTER TABLE api_rate_limit_tracking ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ;
+
+-- Default per-IP limits. Integration platforms (e.g., Make.com) send traffic for many customers
+-- from a small set of IPs, so these are well above the per-key limits.
+INSERT INTO api_rate_limit_config (scope, scope_id, requests_per_minute, requests_per_hour, requests_per_day, notes)
+VALUES ('ip', NULL, 600, 20000, 200000, 'Default per-IP limit applied before authentication')
+ON CONFLICT (scope, scope_id) DO NOTHING;
+
+-- Check an IP lockout, then apply the per-IP rate limit
+CREATE OR REPLACE FUNCTION public.check_ip_rate_limit(
+  p_ip VARCHAR,
+  p_limit_minute INTEGER,
+  p_limit_hour INTEGER,
+  p_limit_day INTEGER
+)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  remaining_minute INTEGER,
+  remaining_hour INTEGER,
+  remaining_day INTEGER,
+  reset_minute TIMESTAMPTZ,
+  reset_hour TIMESTAMPTZ,
+  reset_day TIMESTAMPTZ,
+  retry_after INTEGER,
+  locked_until TIMESTAMPTZ
+) AS $$
+DECLARE
+  v_now TIMESTAMPTZ := clock_timestamp();
+  v_locked_until TIMESTAMPTZ;
+BEGIN
+  SELECT t.locked_until INTO v_locked_until FROM api_rate_limit_tracking t
+  WHERE t.identifier = p_ip AND t.identifier_type = 'ip';
+
+  -- Locked-out IPs are rejected without touching the request counters
+  IF v_locked_until IS NOT NULL AND v_locked_until > v_now THEN
+    RETURN QUERY SELECT
+      false, 0, 0, 0,
+      v_locked_until, v_locked_until, v_locked_until,
+      CEIL(EXTRACT(EPOCH FROM (v_locked_until - v_now)))::INTEGER,
+      v_locked_until;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT c.*, NULL::TIMESTAMPTZ
+  FROM check_rate_limit(p_ip, 'ip', p_limit_minute, p_limit_hour, p_limit_day, 1) c;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Record an invalid-key attempt from an IP, locking it out once the threshold is reached
+CREATE OR REPLACE FUNCTION public.record_auth_failure(
+  p_ip VARCHAR,
+  p_threshold INTEGER DEFAULT 10,
+  p_window_seconds INTEGER DEFAULT 900,
+  p_base_lockout_seconds INTEGER DEFAULT 60,
+  p_max_lockout_seconds INTEGER DEFAULT 86400
+)
+RETURNS TABLE (
+  locked_out BOOLEAN,
+  failed_auth_count INTEGER,
+  lockout_count INTEGER,
+  locked_until TIMESTAMPTZ
+) AS $$
+DECLARE
+  v_now TIMESTAMPTZ := clock_timestamp();
+  r api_rate_limit_tracking%ROWTYPE;
+  v_failures INTEGER;
+  v_lockouts INTEGER;
+  v_locked_until TIMESTAMPTZ;
+  v_window TIMESTAMPTZ;
+  v_locked_out BOOLEAN := false;
+BEGIN
+  INSERT INTO api_rate_limit_tracking (identifier, identifier_type, minute_window, hour_window, day_window)
+  VALUES (p_ip, 'ip', date_trunc('minute', v_now), date_trunc('hour', v_now), date_trunc('day', v_now))
+  ON CONFLICT (identifier, identifier_type) DO NOTHING;
+
+  SELECT * INTO r FROM api_rate_limit_tracking
+  WHERE identifier = p_ip AND identifier_type = 'ip'
+  FOR UPDATE;
+
+  v_lockouts := COALESCE(r.lockout_count, 0);
+  v_locked_until := r.locked_until;
+
+  -- Forget past lockouts once the IP has been clean for a day
+  IF v_locked_until IS NOT NULL AND v_locked_until < v_now - INTERVAL '1 day' THEN
+    v_lockouts := 0;
+  END IF;
+
+  -- Start a new failure window if the previous one has expired
+  IF r.failed_auth_window IS NULL OR r.failed_auth_window < v_now - make_interval(secs => p_window_seconds) THEN
+    v_failures := 1;
+    v_window := v_now;
+  ELSE
+    v_failures := COALESCE(r.failed_auth_count, 0) + 1;
+    v_window := r.failed_auth_window;
+  END IF;
+
+  IF v_failures >= p_threshold THEN
+    v_lockouts := v_lockouts + 1;
+    v_locked_until := v_now + make_interval(secs => LEAST(
+      p_base_lockout_seconds * power(2, v_lockouts - 1),
+      p_max_lockout_seconds
+    ));
+    v_failures := 0;
+    v_window := NULL;
+    v_locked_out := true;
+  END IF;
+
+  UPDATE api_rate_limit_tracking SET
+    failed_auth_count = v_failures,
+    failed_auth_window = v_window,
+    lockout_count = v_lockouts,
+    locked_until = v_locked_until
+  WHERE id = r.id;
+
+  RETURN QUERY SELECT v_locked_out, v_failures, v_lockouts, v_locked_until;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,121 @@
+-- Per-professional lead quotas.
+--
+-- Unlike request rate limits, quotas count leads actually created through the API, across all of a
+-- professional's keys. Periods are calendar days and months in UTC. A NULL limit means unlimited.
+
+-- Lead Quota Configuration table
+CREATE TABLE IF NOT EXISTS public.api_lead_quota_config (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope VARCHAR(50) NOT NULL,
+  scope_id UUID,
+  leads_per_day INTEGER,
+  leads_per_month INTEGER,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  notes TEXT,
+  UNIQUE(scope, scope_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_quota_scope ON api_lead_quota_config(scope, scope_id) WHERE is_active = true;
+
+-- Insert default global quota
+INSERT INTO api_lead_quota_config (scope, scope_id, leads_per_day, leads_per_month, notes)
+VALUES ('global', NULL, 100, 2000, 'Default lead quota per professional')
+ON CONFLICT (scope, scope_id) DO NOTHING;
+
+-- Lead Quota Usage table: leads created in the current day and month
+CREATE TABLE IF NOT EXISTS public.api_lead_quota_usage (
+  professional_id UUID PRIMARY KEY REFERENCES professionals(id) ON DELETE CASCADE,
+  day_start DATE NOT NULL,
+  day_count INTEGER DEFAULT 0,
+  month_start DATE NOT NULL,
+  month_count INTEGER DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE api_lead_quota_config ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_lead_quota_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Lead quota config read access" ON api_lead_quota_config
+  FOR SELECT USING (true);
+
+CREATE POLICY "Lead quota usage access" ON api_lead_quota_usage
+  FOR ALL USING (true);
+
+-- Reserve quota for p_count leads before inserting them. The row is locked, so concurrent
+-- submissions for the same professional cannot exceed the quota.
+CREATE OR REPLACE FUNCTION public.reserve_lead_quota(
+  p_professional_id UUID,
+  p_count INTEGER,
+  p_limit_day INTEGER,
+  p_limit_month INTEGER
+)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  used_day INTEGER,
+  used_month INTEGER,
+  reset_day TIMESTAMPTZ,
+  reset_month TIMESTAMPTZ
+) AS $$
+DECLARE
+  v_now TIMESTAMPTZ := clock_timestamp();
+  v_day DATE := (v_now AT TIME ZONE 'UTC')::DATE;
+  v_month DATE := date_trunc('month', v_now AT TIME ZONE 'UTC')::DATE;
+  r api_lead_quota_usage%ROWTYPE;
+  v_day_count INTEGER;
+  v_month_count INTEGER;
+  v_allowed BOOLEAN;
+BEGIN
+  INSERT INTO api_lead_quota_usage (professional_id, day_start, month_start)
+  VALUES (p_professional_id, v_day, v_month)
+  ON CONFLICT (professional_id) DO NOTHING;
+
+  SELECT * INTO r FROM api_lead_quota_usage
+  WHERE professional_id = p_professional_id
+  FOR UPDATE;
+
+  v_day_count := CASE WHEN r.day_start = v_day THEN r.day_count ELSE 0 END;
+  v_month_count := CASE WHEN r.month_start = v_month THEN r.month_count ELSE 0 END;
+
+  v_allowed := (p_limit_day IS NULL OR v_day_count + p_count <= p_limit_day)
+    AND (p_limit_month IS NULL OR v_month_count + p_count <= p_limit_month);
+
+  IF v_allowed THEN
+    v_day_count := v_day_count + p_count;
+    v_month_count := v_month_count + p_count;
+  END IF;
+
+  UPDATE api_lead_quota_usage SET
+    day_start = v_day, day_count = v_day_count,
+    month_start = v_month, month_count = v_month_count,
+    updated_at = v_now
+  WHERE professional_id = p_professional_id;
+
+  RETURN QUERY SELECT
+    v_allowed,
+    v_day_count,
+    v_month_count,
+    (v_day + 1)::TIMESTAMP AT TIME ZONE 'UTC',
+    (v_month + INTERVAL '1 month')::TIMESTAMP AT TIME ZONE 'UTC';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Give back quota reserved for leads that were not created
+CREATE OR REPLACE FUNCTION public.release_lead_quota(
+  p_professional_id UUID,
+  p_count INTEGER
+)
+RETURNS VOID AS $$
+DECLARE
+  v_now TIMESTAMPTZ := clock_timestamp();
+BEGIN
+  UPDATE api_lead_quota_usage SET
+    day_count = CASE WHEN day_start = (v_now AT TIME ZONE 'UTC')::DATE
+      THEN GREATEST(0, day_count - p_count) ELSE day_count END,
+    month_count = CASE WHEN month_start = date_trunc('month', v_now AT TIME ZONE 'UTC')::DATE
+      THEN GREATEST(0, month_count - p_count) ELSE month_count END,
+    updated_at = v_now
+  WHERE professional_id = p_professional_id;
+END;
+$$ LANGUAGE plpgsql;
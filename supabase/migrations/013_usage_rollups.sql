@@ -0,0 +1,109 @@
+-- Usage analytics rollups.
+--
+-- Hourly and daily per-key aggregates of api_request_logs, so usage analytics don't scan the raw logs.
+-- Rollups are recomputed from scratch for every bucket they touch, so re-running a range is safe.
+-- The rollup-usage function keeps them up to date on a schedule.
+
+CREATE TABLE IF NOT EXISTS public.api_usage_rollups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  api_key_id UUID NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  professional_id UUID NOT NULL REFERENCES professionals(id) ON DELETE CASCADE,
+  granularity VARCHAR(10) NOT NULL CHECK (granularity IN ('hour', 'day')),
+  bucket_start TIMESTAMPTZ NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  status_counts JSONB NOT NULL DEFAULT '{}',   -- {"201": 40, "400": 2}
+  error_counts JSONB NOT NULL DEFAULT '{}',    -- {"validation_error": 2}
+  p50_processing_ms INTEGER,
+  p95_processing_ms INTEGER,
+  leads_created INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(api_key_id, granularity, bucket_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_rollups_professional
+  ON api_usage_rollups(professional_id, granularity, bucket_start);
+
+ALTER TABLE api_usage_rollups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Usage rollups access" ON api_usage_rollups
+  FOR ALL USING (true);
+
+-- Recompute hourly and daily rollups for every bucket overlapping [p_from, p_to).
+-- Returns the number of rollup rows written.
+CREATE OR REPLACE FUNCTION public.rollup_api_usage(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_granularity TEXT;
+  v_start TIMESTAMPTZ;
+  v_end TIMESTAMPTZ;
+  v_rows INTEGER;
+  v_total INTEGER := 0;
+BEGIN
+  FOREACH v_granularity IN ARRAY ARRAY['hour', 'day'] LOOP
+    -- Widen the range to whole buckets so partial buckets are never written
+    v_start := date_trunc(v_granularity, p_from);
+    v_end := date_trunc(v_granularity, p_to - INTERVAL '1 microsecond') + ('1 ' || v_granularity)::INTERVAL;
+
+    WITH logs AS (
+      SELECT l.api_key_id, date_trunc(v_granularity, l.created_at) AS bucket,
+        l.response_status, l.error_code, l.processing_time_ms
+      FROM api_request_logs l
+      WHERE l.api_key_id IS NOT NULL
+        AND l.created_at >= v_start AND l.created_at < v_end
+    ),
+    totals AS (
+      SELECT api_key_id, bucket, COUNT(*) AS request_count,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY processing_time_ms) AS p50,
+        percentile_cont(0.95) WITHIN GROUP (ORDER BY processing_time_ms) AS p95
+      FROM logs GROUP BY api_key_id, bucket
+    ),
+    statuses AS (
+      SELECT api_key_id, bucket, jsonb_object_agg(response_status::TEXT, n) AS counts
+      FROM (SELECT api_key_id, bucket, response_status, COUNT(*) AS n FROM logs
+        GROUP BY api_key_id, bucket, response_status) s
+      GROUP BY api_key_id, bucket
+    ),
+    errors AS (
+      SELECT api_key_id, bucket, jsonb_object_agg(error_code, n) AS counts
+      FROM (SELECT api_key_id, bucket, error_code, COUNT(*) AS n FROM logs
+        WHERE error_code IS NOT NULL GROUP BY api_key_id, bucket, error_code) e
+      GROUP BY api_key_id, bucket
+    ),
+    created AS (
+      SELECT ld.api_key_id, date_trunc(v_granularity, ld.created_at) AS bucket, COUNT(*) AS n
+      FROM leads ld
+      WHERE ld.api_key_id IS NOT NULL
+        AND ld.created_at >= v_start AND ld.created_at < v_end
+      GROUP BY ld.api_key_id, date_trunc(v_granularity, ld.created_at)
+    )
+    INSERT INTO api_usage_rollups (
+      api_key_id, professional_id, granularity, bucket_start, request_count,
+      status_counts, error_counts, p50_processing_ms, p95_processing_ms, leads_created, updated_at
+    )
+    SELECT t.api_key_id, k.professional_id, v_granularity, t.bucket, t.request_count,
+      COALESCE(s.counts, '{}'), COALESCE(e.counts, '{}'),
+      ROUND(t.p50)::INTEGER, ROUND(t.p95)::INTEGER, COALESCE(c.n, 0), now()
+    FROM totals t
+    JOIN api_keys k ON k.id = t.api_key_id
+    LEFT JOIN statuses s ON s.api_key_id = t.api_key_id AND s.bucket = t.bucket
+    LEFT JOIN errors e ON e.api_key_id = t.api_key_id AND e.bucket = t.bucket
+    LEFT JOIN created c ON c.api_key_id = t.api_key_id AND c.bucket = t.bucket
+    ON CONFLICT (api_key_id, granularity, bucket_start) DO UPDATE SET
+      request_count = EXCLUDED.request_count,
+      status_counts = EXCLUDED.status_counts,
+      error_counts = EXCLUDED.error_counts,
+      p50_processing_ms = EXCLUDED.p50_processing_ms,
+      p95_processing_ms = EXCLUDED.p95_processing_ms,
+      leads_created = EXCLUDED.leads_created,
+      updated_at = EXCLUDED.updated_at;
+
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+    v_total := v_total + v_rows;
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql;
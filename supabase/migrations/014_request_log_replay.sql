@@ -0,0 +1,12 @@
+-- Request log search and replay.
+--
+-- A replayed request gets its own log entry that points back at the original request.
+
+ALTER TABLE api_request_logs ADD COLUMN IF NOT EXISTS replay_of_request_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_api_logs_replay_of ON api_request_logs(replay_of_request_id)
+  WHERE replay_of_request_id IS NOT NULL;
+
+-- Professional-facing searches filter by error code within a professional's logs
+CREATE INDEX IF NOT EXISTS idx_api_logs_professional_error ON api_request_logs(professional_id, error_code, created_at DESC)
+  WHERE error_code IS NOT NULL;
@@ -0,0 +1,174 @@
+-- Request log retention, archiving and PII erasure.
+--
+-- Two retention periods apply to api_request_logs:
+--   * PII retention: after it, request_body and client_ip are nulled; metrics columns are kept.
+--   * Log retention: after it, rows are deleted, or moved to api_request_logs_archive.
+-- Both run in bounded batches (oldest first) so a large backlog is worked off over several runs.
+-- Every function supports a dry run that only counts what would change.
+
+-- Archived logs keep the metrics columns only
+CREATE TABLE IF NOT EXISTS public.api_request_logs_archive (
+  id UUID PRIMARY KEY,
+  request_id UUID NOT NULL,
+  api_key_id UUID,
+  professional_id UUID,
+  endpoint VARCHAR(100) NOT NULL,
+  method VARCHAR(10) NOT NULL,
+  response_status INTEGER NOT NULL,
+  lead_id UUID,
+  error_code VARCHAR(50),
+  processing_time_ms INTEGER,
+  is_replay BOOLEAN,
+  replay_of_request_id UUID,
+  created_at TIMESTAMPTZ,
+  archived_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_logs_archive_professional ON api_request_logs_archive(professional_id, created_at DESC);
+
+-- Audit trail of erasure requests. The phone number itself is not stored.
+CREATE TABLE IF NOT EXISTS public.api_log_erasure_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  phone_hash TEXT NOT NULL,
+  scrubbed_rows INTEGER NOT NULL,
+  requested_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE api_request_logs_archive ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_log_erasure_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role access for archived logs" ON api_request_logs_archive
+  FOR ALL USING (true);
+
+CREATE POLICY "Service role access for erasure requests" ON api_log_erasure_requests
+  FOR ALL USING (true);
+
+-- Apply both retention periods to at most p_batch_size rows each
+CREATE OR REPLACE FUNCTION public.purge_api_request_logs(
+  p_retention_days INTEGER,
+  p_pii_retention_days INTEGER,
+  p_archive BOOLEAN DEFAULT false,
+  p_dry_run BOOLEAN DEFAULT true,
+  p_batch_size INTEGER DEFAULT 10000
+)
+RETURNS TABLE (
+  pii_scrubbed BIGINT,
+  pii_pending BIGINT,
+  expired BIGINT,
+  expired_pending BIGINT
+) AS $$
+DECLARE
+  v_pii_cutoff TIMESTAMPTZ := now() - make_interval(days => p_pii_retention_days);
+  v_cutoff TIMESTAMPTZ := now() - make_interval(days => p_retention_days);
+  v_pii_total BIGINT;
+  v_expired_total BIGINT;
+  v_pii BIGINT := 0;
+  v_expired BIGINT := 0;
+BEGIN
+  SELECT COUNT(*) INTO v_pii_total FROM api_request_logs
+  WHERE created_at < v_pii_cutoff AND (request_body IS NOT NULL OR client_ip IS NOT NULL);
+
+  SELECT COUNT(*) INTO v_expired_total FROM api_request_logs
+  WHERE created_at < v_cutoff;
+
+  IF p_dry_run THEN
+    RETURN QUERY SELECT
+      LEAST(v_pii_total, p_batch_size::BIGINT), GREATEST(v_pii_total - p_batch_size, 0),
+      LEAST(v_expired_total, p_batch_size::BIGINT), GREATEST(v_expired_total - p_batch_size, 0);
+    RETURN;
+  END IF;
+
+  UPDATE api_request_logs SET request_body = NULL, client_ip = NULL
+  WHERE id IN (
+    SELECT id FROM api_request_logs
+    WHERE created_at < v_pii_cutoff AND (request_body IS NOT NULL OR client_ip IS NOT NULL)
+    ORDER BY created_at
+    LIMIT p_batch_size
+  );
+  GET DIAGNOSTICS v_pii = ROW_COUNT;
+
+  CREATE TEMP TABLE expired_logs ON COMMIT DROP AS
+  SELECT id FROM api_request_logs
+  WHERE created_at < v_cutoff
+  ORDER BY created_at
+  LIMIT p_batch_size;
+
+  IF p_archive THEN
+    INSERT INTO api_request_logs_archive (
+      id, request_id, api_key_id, professional_id, endpoint, method, response_status,
+      lead_id, error_code, processing_time_ms, is_replay, replay_of_request_id, created_at
+    )
+    SELECT l.id, l.request_id, l.api_key_id, l.professional_id, l.endpoint, l.method, l.response_status,
+      l.lead_id, l.error_code, l.processing_time_ms, l.is_replay, l.replay_of_request_id, l.created_at
+    FROM api_request_logs l
+    WHERE l.id IN (SELECT id FROM expired_logs)
+    ON CONFLICT (id) DO NOTHING;
+  END IF;
+
+  DELETE FROM api_request_logs WHERE id IN (SELECT id FROM expired_logs);
+  GET DIAGNOSTICS v_expired = ROW_COUNT;
+
+  DROP TABLE expired_logs;
+
+  RETURN QUERY SELECT
+    v_pii, GREATEST(v_pii_total - v_pii, 0),
+    v_expired, GREATEST(v_expired_total - v_expired, 0);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Scrub request bodies and IPs from every log row that may contain a client's phone number.
+-- p_phone is the phone in national digits-only format (e.g. 0501234567).
+--
+-- Logged phones are masked to their last 4 digits, so rows are matched two ways:
+--   * rows linked to a lead with this phone (exact)
+--   * rows whose masked client_phone, at any depth (batch items included), ends in the same 4 digits.
+--     This may also scrub rows of other clients that share those digits, which is the safe direction.
+CREATE OR REPLACE FUNCTION public.erase_client_phone_from_logs(
+  p_phone VARCHAR,
+  p_phone_hash TEXT,
+  p_dry_run BOOLEAN DEFAULT true
+)
+RETURNS TABLE (
+  matched BIGINT,
+  scrubbed BIGINT,
+  request_ids UUID[]
+) AS $$
+DECLARE
+  v_last4 TEXT := right(regexp_replace(p_phone, '\D', '', 'g'), 4);
+  v_matched BIGINT;
+  v_scrubbed BIGINT := 0;
+  v_request_ids UUID[];
+BEGIN
+  IF length(v_last4) < 4 THEN
+    RAISE EXCEPTION 'Phone number must have at least 4 digits';
+  END IF;
+
+  CREATE TEMP TABLE erased_logs ON COMMIT DROP AS
+  SELECT l.id, l.request_id FROM api_request_logs l
+  WHERE (l.request_body IS NOT NULL OR l.client_ip IS NOT NULL)
+    AND (
+      l.lead_id IN (
+        SELECT ld.id FROM leads ld
+        WHERE regexp_replace(ld.client_phone, '\D', '', 'g') = regexp_replace(p_phone, '\D', '', 'g')
+      )
+      OR l.request_body::TEXT ~ ('"client_phone": "[^"]*' || v_last4 || '"')
+    );
+
+  SELECT COUNT(*), (array_agg(request_id ORDER BY request_id))[1:100]
+  INTO v_matched, v_request_ids
+  FROM erased_logs;
+
+  IF NOT p_dry_run THEN
+    UPDATE api_request_logs SET request_body = NULL, client_ip = NULL
+    WHERE id IN (SELECT id FROM erased_logs);
+    GET DIAGNOSTICS v_scrubbed = ROW_COUNT;
+
+    INSERT INTO api_log_erasure_requests (phone_hash, scrubbed_rows)
+    VALUES (p_phone_hash, v_scrubbed);
+  END IF;
+
+  DROP TABLE erased_logs;
+
+  RETURN QUERY SELECT v_matched, v_scrubbed, COALESCE(v_request_ids, ARRAY[]::UUID[]);
+END;
+$$ LANGUAGE plpgsql;
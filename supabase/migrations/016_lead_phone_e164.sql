@@ -0,0 +1,12 @@
+-- Normalized client phone numbers.
+--
+-- API leads store client_phone in national format, digits only (0501234567), and the same
+-- number in E.164 (+972501234567) in client_phone_e164.
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS client_phone_e164 VARCHAR(16);
+
+-- Backfill existing leads whose phone is a valid Israeli mobile or landline number in national format
+UPDATE leads
+SET client_phone_e164 = '+972' || substring(regexp_replace(client_phone, '\D', '', 'g') FROM 2)
+WHERE client_phone_e164 IS NULL
+  AND regexp_replace(client_phone, '\D', '', 'g') ~ '^0(5[0-689][0-9]{7}|[23489][2-9][0-9]{6}|7[2-46-9][0-9]{7})$';
@@ -0,0 +1,17 @@
+-- Geocoding cache.
+--
+-- Known Israeli localities are resolved from the bundled gazetteer without a network call.
+-- Other places are geocoded once and cached here, keyed by the normalized location text.
+-- A row without coordinates records that the geocoder found nothing; it is retried after a while.
+
+CREATE TABLE IF NOT EXISTS public.geocode_cache (
+  query VARCHAR(200) PRIMARY KEY,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE geocode_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Geocode cache access" ON geocode_cache
+  FOR ALL USING (true);
@@ -0,0 +1,35 @@
+-- Atomic claiming of webhook deliveries.
+--
+-- A dispatcher run claims the due deliveries it will send by moving them to 'delivering',
+-- so overlapping runs never send the same delivery twice. A claimed delivery that is not
+-- finished within the lease (the dispatcher crashed) is claimed again by a later run.
+
+ALTER TABLE webhook_deliveries ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN webhook_deliveries.status IS 'pending | delivering | succeeded | dead_letter';
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_claimed ON webhook_deliveries(claimed_at) WHERE status = 'delivering';
+
+CREATE OR REPLACE FUNCTION public.claim_webhook_deliveries(
+  p_limit INTEGER,
+  p_lease_seconds INTEGER DEFAULT 900
+)
+RETURNS SETOF webhook_deliveries AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE webhook_deliveries d
+  SET status = 'delivering', claimed_at = now()
+  WHERE d.id IN (
+    SELECT w.id FROM webhook_deliveries w
+    WHERE (w.status = 'pending' AND w.next_attempt_at <= now())
+       OR (w.status = 'delivering' AND w.claimed_at < now() - make_interval(secs => p_lease_seconds))
+    ORDER BY w.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The lead event trigger runs as its owner; pin its search path so it cannot be redirected
+ALTER FUNCTION public.enqueue_lead_webhook_events() SET search_path = public;
@@ -0,0 +1,192 @@
+-- Pre-authentication IP limits that don't penalize everyone behind a shared IP.
+--
+-- Integration platforms (e.g., Make.com) send traffic for many customers from a few egress IPs.
+--   * Invalid-key lockouts are keyed on (IP, key prefix) instead of the IP alone: a scenario that
+--     keeps sending the same wrong key locks out that key from that IP, not every customer behind it.
+--     Lockout rows use identifier '<ip> <key prefix>' with identifier_type 'ip_key'.
+--   * The IP itself is still locked out once it sends many different invalid keys (20 distinct key
+--     prefixes within 15 minutes by default), so guessing a new key on every attempt doesn't
+--     escape the lockout. Repeating one wrong key counts once towards it.
+--   * api_ip_rate_limit_ranges raises the per-IP limits for known egress ranges.
+--     IPs outside these ranges keep the default 'ip' row of api_rate_limit_config.
+
+CREATE TABLE IF NOT EXISTS public.api_ip_rate_limit_ranges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cidr VARCHAR(50) NOT NULL UNIQUE,
+  requests_per_minute INTEGER NOT NULL,
+  requests_per_hour INTEGER NOT NULL,
+  requests_per_day INTEGER NOT NULL,
+  is_active BOOLEAN DEFAULT true,
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE api_ip_rate_limit_ranges ENABLE ROW LEVEL SECURITY;
+
+-- Managed by service role only
+CREATE POLICY "IP rate limit ranges access" ON api_ip_rate_limit_ranges
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+DROP FUNCTION IF EXISTS public.check_ip_rate_limit(VARCHAR, INTEGER, INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS public.record_auth_failure(VARCHAR, INTEGER, INTEGER, INTEGER, INTEGER);
+
+-- Check the lockouts of the IP and of the key prefix from this IP, then apply the per-IP rate limit.
+-- Without a key prefix (no key sent) only the IP lockout and the rate limit apply.
+CREATE OR REPLACE FUNCTION public.check_ip_rate_limit(
+  p_ip VARCHAR,
+  p_key_prefix VARCHAR,
+  p_limit_minute INTEGER,
+  p_limit_hour INTEGER,
+  p_limit_day INTEGER
+)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  remaining_minute INTEGER,
+  remaining_hour INTEGER,
+  remaining_day INTEGER,
+  reset_minute TIMESTAMPTZ,
+  reset_hour TIMESTAMPTZ,
+  reset_day TIMESTAMPTZ,
+  retry_after INTEGER,
+  locked_until TIMESTAMPTZ
+) AS $$
+DECLARE
+  v_now TIMESTAMPTZ := clock_timestamp();
+  v_locked_until TIMESTAMPTZ;
+BEGIN
+  -- The later of the two lockouts, if any
+  SELECT MAX(t.locked_until) INTO v_locked_until FROM api_rate_limit_tracking t
+  WHERE (t.identifier = p_ip AND t.identifier_type = 'ip')
+     OR (p_key_prefix IS NOT NULL AND t.identifier = p_ip || ' ' || p_key_prefix AND t.identifier_type = 'ip_key');
+
+  -- Locked-out IPs and keys are rejected without touching the request counters
+  IF v_locked_until IS NOT NULL AND v_locked_until > v_now THEN
+    RETURN QUERY SELECT
+      false, 0, 0, 0,
+      v_locked_until, v_locked_until, v_locked_until,
+      CEIL(EXTRACT(EPOCH FROM (v_locked_until - v_now)))::INTEGER,
+      v_locked_until;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT c.*, NULL::TIMESTAMPTZ
+  FROM check_rate_limit(p_ip, 'ip', p_limit_minute, p_limit_hour, p_limit_day, 1) c;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Count a failure against one tracking row, locking it out with an escalating penalty once the threshold
+-- is reached within the window. first_in_window tells whether the failure started a new window.
+CREATE OR REPLACE FUNCTION public.count_auth_failure(
+  p_identifier VARCHAR,
+  p_identifier_type VARCHAR,
+  p_threshold INTEGER,
+  p_window_seconds INTEGER,
+  p_base_lockout_seconds INTEGER,
+  p_max_lockout_seconds INTEGER
+)
+RETURNS TABLE (
+  locked_out BOOLEAN,
+  failed_auth_count INTEGER,
+  lockout_count INTEGER,
+  locked_until TIMESTAMPTZ,
+  first_in_window BOOLEAN
+) AS $$
+DECLARE
+  v_now TIMESTAMPTZ := clock_timestamp();
+  r api_rate_limit_tracking%ROWTYPE;
+  v_failures INTEGER;
+  v_lockouts INTEGER;
+  v_locked_until TIMESTAMPTZ;
+  v_window TIMESTAMPTZ;
+  v_locked_out BOOLEAN := false;
+  v_first BOOLEAN := false;
+BEGIN
+  INSERT INTO api_rate_limit_tracking (identifier, identifier_type, minute_window, hour_window, day_window)
+  VALUES (p_identifier, p_identifier_type, date_trunc('minute', v_now), date_trunc('hour', v_now), date_trunc('day', v_now))
+  ON CONFLICT (identifier, identifier_type) DO NOTHING;
+
+  SELECT * INTO r FROM api_rate_limit_tracking
+  WHERE identifier = p_identifier AND identifier_type = p_identifier_type
+  FOR UPDATE;
+
+  v_lockouts := COALESCE(r.lockout_count, 0);
+  v_locked_until := r.locked_until;
+
+  -- Forget past lockouts once the row has been clean for a day
+  IF v_locked_until IS NOT NULL AND v_locked_until < v_now - INTERVAL '1 day' THEN
+    v_lockouts := 0;
+  END IF;
+
+  -- Start a new failure window if the previous one has expired
+  IF r.failed_auth_window IS NULL OR r.failed_auth_window < v_now - make_interval(secs => p_window_seconds) THEN
+    v_failures := 1;
+    v_window := v_now;
+    v_first := true;
+  ELSE
+    v_failures := COALESCE(r.failed_auth_count, 0) + 1;
+    v_window := r.failed_auth_window;
+  END IF;
+
+  IF v_failures >= p_threshold THEN
+    v_lockouts := v_lockouts + 1;
+    v_locked_until := v_now + make_interval(secs => LEAST(
+      p_base_lockout_seconds * power(2, v_lockouts - 1),
+      p_max_lockout_seconds
+    ));
+    v_failures := 0;
+    v_window := NULL;
+    v_locked_out := true;
+  END IF;
+
+  UPDATE api_rate_limit_tracking SET
+    failed_auth_count = v_failures,
+    failed_auth_window = v_window,
+    lockout_count = v_lockouts,
+    locked_until = v_locked_until,
+    last_request_at = v_now
+  WHERE id = r.id;
+
+  RETURN QUERY SELECT v_locked_out, v_failures, v_lockouts, v_locked_until, v_first;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Record an invalid-key attempt from an IP. The key prefix is locked out from that IP after p_threshold
+-- failures; the IP itself after failures with p_ip_threshold distinct key prefixes (a key counts again
+-- once its own failure window has expired).
+CREATE OR REPLACE FUNCTION public.record_auth_failure(
+  p_ip VARCHAR,
+  p_key_prefix VARCHAR,
+  p_threshold INTEGER DEFAULT 10,
+  p_ip_threshold INTEGER DEFAULT 20,
+  p_window_seconds INTEGER DEFAULT 900,
+  p_base_lockout_seconds INTEGER DEFAULT 60,
+  p_max_lockout_seconds INTEGER DEFAULT 86400
+)
+RETURNS TABLE (
+  locked_out BOOLEAN,
+  failed_auth_count INTEGER,
+  lockout_count INTEGER,
+  locked_until TIMESTAMPTZ
+) AS $$
+DECLARE
+  v_key RECORD;
+  v_ip RECORD;
+BEGIN
+  SELECT * INTO v_key FROM count_auth_failure(
+    p_ip || ' ' || p_key_prefix, 'ip_key', p_threshold, p_window_seconds, p_base_lockout_seconds, p_max_lockout_seconds
+  );
+
+  IF v_key.first_in_window THEN
+    SELECT * INTO v_ip FROM count_auth_failure(
+      p_ip, 'ip', p_ip_threshold, p_window_seconds, p_base_lockout_seconds, p_max_lockout_seconds
+    );
+
+    IF v_ip.locked_out THEN
+      RETURN QUERY SELECT true, v_ip.failed_auth_count, v_ip.lockout_count, v_ip.locked_until;
+      RETURN;
+    END IF;
+  END IF;
+
+  RETURN QUERY SELECT v_key.locked_out, v_key.failed_auth_count, v_key.lockout_count, v_key.locked_until;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,34 @@
+-- Atomic claims on request replays.
+--
+-- A replay claims its original request by inserting a row here before creating the lead;
+-- the unique (professional_id, original_request_id) makes concurrent replays of the same request fail
+-- instead of creating duplicate leads. Failed replays release their claim so the request
+-- can be corrected and replayed again.
+
+CREATE TABLE IF NOT EXISTS public.api_request_replays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  professional_id UUID NOT NULL REFERENCES professionals(id) ON DELETE CASCADE,
+  original_request_id UUID NOT NULL,
+  replay_request_id UUID NOT NULL,
+  lead_id UUID REFERENCES leads(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  completed_at TIMESTAMPTZ,
+  UNIQUE(professional_id, original_request_id)
+);
+
+-- Requests that were already replayed successfully stay claimed
+INSERT INTO api_request_replays (professional_id, original_request_id, replay_request_id, lead_id, created_at, completed_at)
+SELECT DISTINCT ON (professional_id, replay_of_request_id) professional_id, replay_of_request_id, request_id, lead_id, created_at, created_at
+FROM api_request_logs
+WHERE replay_of_request_id IS NOT NULL
+  AND professional_id IS NOT NULL
+  AND response_status >= 200 AND response_status < 300
+ORDER BY professional_id, replay_of_request_id, created_at
+ON CONFLICT (professional_id, original_request_id) DO NOTHING;
+
+-- Enable RLS
+ALTER TABLE api_request_replays ENABLE ROW LEVEL SECURITY;
+
+-- Replay claims are managed by service role
+CREATE POLICY "Request replays access" ON api_request_replays
+  FOR ALL USING (true);